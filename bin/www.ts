@@ -12,6 +12,11 @@ import 'dotenv/config';
 import app from '../src/app.js';
 import debug from 'debug';
 import http from 'http';
+import { SearchCacheService } from '../src/services/searchCacheService.js';
+import { HealthCheckService } from '../src/services/healthCheckService.js';
+import { SearchJobService } from '../src/services/searchJobService.js';
+import { CreditService } from '../src/services/creditService.js';
+import { BalanceMonitorService } from '../src/services/balanceMonitorService.js';
 
 const debugLog = debug('backend:server');
 
@@ -36,6 +41,21 @@ server.listen(port);
 server.on('error', onError);
 server.on('listening', onListening);
 
+/**
+ * Start background jobs.
+ */
+
+new SearchCacheService().startSweeper();
+
+if (process.env.HEALTH_CHECK_ENABLED !== 'false') {
+  new HealthCheckService().start();
+}
+
+new SearchJobService().start().catch(error => console.error('Failed to resume search jobs:', error));
+
+new CreditService().startSweeper();
+new BalanceMonitorService().start();
+
 console.log(`🚀 Server starting on port ${port}`);
 console.log(`📍 Environment: ${process.env.NODE_ENV || 'development'}`);
 console.log(`🔗 Server will be available at: http://localhost:${port}`);
@@ -0,0 +1,12 @@
+CREATE TABLE "search_cache" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"query" varchar(500) NOT NULL,
+	"query_hash" varchar(64) NOT NULL,
+	"results" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "search_cache_query_hash_unique" UNIQUE("query_hash")
+);
+--> statement-breakpoint
+CREATE INDEX "query_hash_idx" ON "search_cache" USING btree ("query_hash");--> statement-breakpoint
+CREATE INDEX "expires_at_idx" ON "search_cache" USING btree ("expires_at");
\ No newline at end of file
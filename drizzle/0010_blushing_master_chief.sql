@@ -0,0 +1,2 @@
+ALTER TABLE "serp_search_results" ADD COLUMN "instance_used" varchar(255);--> statement-breakpoint
+ALTER TABLE "serp_search_results" ADD COLUMN "instances_tried" json;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "serp_instance_health_checks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"instance_id" integer NOT NULL,
+	"outcome" varchar(20) NOT NULL,
+	"health_status" varchar(20) NOT NULL,
+	"response_time" integer,
+	"results_count" integer,
+	"error" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "serp_instance_health_checks" ADD CONSTRAINT "serp_instance_health_checks_instance_id_serp_configuration_id_fk" FOREIGN KEY ("instance_id") REFERENCES "public"."serp_configuration"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "health_checks_instance_id_idx" ON "serp_instance_health_checks" USING btree ("instance_id");--> statement-breakpoint
+CREATE INDEX "health_checks_created_at_idx" ON "serp_instance_health_checks" USING btree ("created_at");
\ No newline at end of file
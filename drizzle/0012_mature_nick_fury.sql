@@ -0,0 +1,38 @@
+CREATE TABLE "search_job_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job_id" text NOT NULL,
+	"item_index" integer NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"response" json,
+	"error" json,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "search_jobs" (
+	"id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"api_key_id" integer,
+	"type" varchar(20) NOT NULL,
+	"status" varchar(20) DEFAULT 'queued' NOT NULL,
+	"request" json NOT NULL,
+	"items_total" integer DEFAULT 0 NOT NULL,
+	"items_completed" integer DEFAULT 0 NOT NULL,
+	"items_failed" integer DEFAULT 0 NOT NULL,
+	"credits_charged" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"callback_url" text,
+	"callback_status" varchar(20),
+	"callback_attempts" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "search_job_results" ADD CONSTRAINT "search_job_results_job_id_search_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."search_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "search_jobs" ADD CONSTRAINT "search_jobs_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "search_jobs" ADD CONSTRAINT "search_jobs_api_key_id_api_keys_id_fk" FOREIGN KEY ("api_key_id") REFERENCES "public"."api_keys"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "search_job_results_job_id_idx" ON "search_job_results" USING btree ("job_id");--> statement-breakpoint
+CREATE INDEX "search_jobs_organization_id_idx" ON "search_jobs" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "search_jobs_status_idx" ON "search_jobs" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "search_jobs_expires_at_idx" ON "search_jobs" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "workspace_credits" ADD COLUMN "autocomplete_calls" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,51 @@
+CREATE TABLE "search_engines" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" varchar(50) NOT NULL,
+	"name" varchar(100) NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"credit_cost" integer DEFAULT 1 NOT NULL,
+	"verticals" json DEFAULT '["web"]'::json NOT NULL,
+	"is_default" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "search_engines_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE INDEX "search_engines_enabled_idx" ON "search_engines" USING btree ("enabled");
+--> statement-breakpoint
+INSERT INTO "search_engines" ("code", "name", "enabled", "credit_cost", "verticals", "is_default") VALUES
+	('google', 'Google', true, 1, '["web"]'::json, true),
+	('bing', 'Bing', true, 2, '["web"]'::json, false),
+	('duckduckgo', 'DuckDuckGo', true, 2, '["web"]'::json, true),
+	('brave', 'Brave Search', true, 3, '["web"]'::json, false),
+	('startpage', 'Startpage', true, 1, '["web"]'::json, false),
+	('mojeek', 'Mojeek', true, 1, '["web"]'::json, false),
+	('yahoo', 'Yahoo', true, 1, '["web"]'::json, false),
+	('yep', 'Yep', true, 1, '["web"]'::json, false),
+	('searx', 'SearX', true, 1, '["web"]'::json, false),
+	('qwant', 'Qwant', true, 1, '["web"]'::json, false),
+	('google images', 'Google Images', true, 2, '["images"]'::json, true),
+	('bing images', 'Bing Images', true, 2, '["images"]'::json, true),
+	('duckduckgo images', 'DuckDuckGo Images', true, 2, '["images"]'::json, false),
+	('brave.images', 'Brave Images', true, 2, '["images"]'::json, false),
+	('qwant images', 'Qwant Images', true, 2, '["images"]'::json, false),
+	('startpage images', 'Startpage Images', true, 2, '["images"]'::json, false),
+	('google news', 'Google News', true, 1, '["news"]'::json, true),
+	('bing news', 'Bing News', true, 1, '["news"]'::json, true),
+	('duckduckgo news', 'DuckDuckGo News', true, 1, '["news"]'::json, false),
+	('brave.news', 'Brave News', true, 1, '["news"]'::json, false),
+	('qwant news', 'Qwant News', true, 1, '["news"]'::json, false),
+	('yahoo news', 'Yahoo News', true, 1, '["news"]'::json, false),
+	('startpage news', 'Startpage News', true, 1, '["news"]'::json, false),
+	('youtube', 'YouTube', true, 2, '["videos"]'::json, true),
+	('google videos', 'Google Videos', true, 2, '["videos"]'::json, true),
+	('bing videos', 'Bing Videos', true, 2, '["videos"]'::json, false),
+	('duckduckgo videos', 'DuckDuckGo Videos', true, 2, '["videos"]'::json, false),
+	('brave.videos', 'Brave Videos', true, 2, '["videos"]'::json, false),
+	('qwant videos', 'Qwant Videos', true, 2, '["videos"]'::json, false),
+	('vimeo', 'Vimeo', true, 2, '["videos"]'::json, false),
+	('dailymotion', 'Dailymotion', true, 2, '["videos"]'::json, false),
+	('openstreetmap', 'OpenStreetMap', true, 1, '["maps"]'::json, true),
+	('photon', 'Photon', true, 1, '["maps"]'::json, true),
+	('apple maps', 'Apple Maps', true, 1, '["maps"]'::json, false)
+ON CONFLICT ("code") DO NOTHING;
\ No newline at end of file
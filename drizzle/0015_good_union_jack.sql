@@ -0,0 +1,2 @@
+ALTER TABLE "serp_search_results" ADD COLUMN "credits_charged" integer;--> statement-breakpoint
+ALTER TABLE "serp_search_results" ADD COLUMN "pricing" json;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "credit_reservations" (
+	"id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"expires_at" timestamp NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workspace_credits" ADD COLUMN "reserved" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "credit_reservations" ADD CONSTRAINT "credit_reservations_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "credit_reservations_org_id_idx" ON "credit_reservations" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "credit_reservations_expires_at_idx" ON "credit_reservations" USING btree ("expires_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "credit_ledger" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"amount" integer NOT NULL,
+	"balance_after" integer NOT NULL,
+	"type" varchar(20) NOT NULL,
+	"reason" text NOT NULL,
+	"reference_type" varchar(30),
+	"reference_id" varchar(255),
+	"created_by" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "credit_ledger" ADD CONSTRAINT "credit_ledger_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "credit_ledger_org_id_idx" ON "credit_ledger" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "credit_ledger_created_at_idx" ON "credit_ledger" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "credit_ledger_reference_idx" ON "credit_ledger" USING btree ("reference_type","reference_id");--> statement-breakpoint
+INSERT INTO "credit_ledger" ("organization_id", "amount", "balance_after", "type", "reason", "reference_type")
+SELECT "organization_id", COALESCE("balance", 0), COALESCE("balance", 0), 'adjustment', 'Opening balance', 'migration'
+FROM "workspace_credits";
@@ -0,0 +1,23 @@
+CREATE TABLE "billing_settings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"low_balance_threshold" integer,
+	"alert_email" varchar(255),
+	"alert_webhook_url" text,
+	"low_balance_alerted_at" timestamp,
+	"auto_recharge_enabled" boolean DEFAULT false NOT NULL,
+	"auto_recharge_threshold" integer,
+	"auto_recharge_amount_usd" integer,
+	"auto_recharge_monthly_cap_usd" integer,
+	"stripe_customer_id" varchar(255),
+	"stripe_payment_method_id" varchar(255),
+	"auto_recharge_attempted_at" timestamp,
+	"auto_recharge_failures" integer DEFAULT 0 NOT NULL,
+	"auto_recharge_last_error" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "billing_settings_organization_id_unique" UNIQUE("organization_id")
+);
+--> statement-breakpoint
+ALTER TABLE "stripe_payment_intents" ADD COLUMN "source" varchar(20) DEFAULT 'checkout' NOT NULL;--> statement-breakpoint
+ALTER TABLE "billing_settings" ADD CONSTRAINT "billing_settings_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
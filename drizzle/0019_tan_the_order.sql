@@ -0,0 +1,14 @@
+CREATE TABLE "stripe_events" (
+	"id" varchar(255) PRIMARY KEY NOT NULL,
+	"type" varchar(100) NOT NULL,
+	"status" varchar(20) NOT NULL,
+	"payload" json NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"processed_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX "stripe_events_status_idx" ON "stripe_events" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "stripe_events_type_idx" ON "stripe_events" USING btree ("type");
\ No newline at end of file
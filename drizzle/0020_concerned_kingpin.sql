@@ -0,0 +1 @@
+ALTER TABLE "billing_settings" DROP COLUMN "alert_email";
\ No newline at end of file
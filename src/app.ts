@@ -1,4 +1,5 @@
 import express, { Application } from 'express';
+import bodyParser from 'body-parser';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import cookieParser from 'cookie-parser';
@@ -13,6 +14,7 @@ import overviewRouter from './routes/overview';
 import searchRouter from './routes/search';
 import billingRouter from './routes/billing';
 import blogRouter from './routes/blog';
+import adminRouter from './routes/admin';
 
 import { errorHandler, notFoundHandler, requestLogger, rateLimit } from './middleware/auth';
 
@@ -35,6 +37,8 @@ app.use(cors({
 
 // Basic middleware
 app.use(logger('dev'));
+// Stripe signs the exact request bytes, so the webhook keeps its raw body
+app.use('/api/billing/webhook', bodyParser.raw({ type: 'application/json' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 app.use(cookieParser());
@@ -54,6 +58,7 @@ app.use('/api/overview', overviewRouter);
 app.use('/api/search', searchRouter);
 app.use('/api/billing', billingRouter);
 app.use('/api/blog', blogRouter);
+app.use('/api/admin', adminRouter);
 
 // Error handling
 app.use(notFoundHandler);
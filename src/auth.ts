@@ -6,10 +6,13 @@ import { db } from "./db/index";
 import { users, sessions, accounts, verifications, organization as orgTable, member, invitation, workspaceCredits } from "./db/schema";
 import { eq } from "drizzle-orm";
 import crypto from 'crypto';
+import { CreditService } from "./services/creditService";
 import dotenv from 'dotenv';
 
 dotenv.config({ path: '.env.local' });
 
+const creditService = new CreditService();
+
 export const auth = betterAuth({
   baseURL: process.env.BASE_URL || "http://localhost:3002",
   trustedOrigins: [
@@ -93,17 +96,14 @@ export const auth = betterAuth({
                 .then(rows => rows[0]);
 
               if (!existingCredits) {
-                await db
-                  .insert(workspaceCredits)
-                  .values({
-                    organizationId: existingMembership.organizationId,
-                    balance: 200,
-                    totalPurchased: 200,
-                    totalUsed: 0,
-                    lastPurchase: new Date(),
-                    createdAt: new Date(),
-                    updatedAt: new Date(),
-                  });
+                await creditService.record({
+                  organizationId: existingMembership.organizationId,
+                  amount: 200,
+                  type: 'grant',
+                  reason: 'Starter credits',
+                  referenceType: 'organization',
+                  referenceId: existingMembership.organizationId,
+                });
                 console.log(`💰 Starter credits (200) created for existing organization ${existingMembership.organizationId}`);
               }
               
@@ -163,17 +163,14 @@ export const auth = betterAuth({
               console.log(`✅ Organization "${newOrg.name}" created for user ${user.email}`);
 
               // Create workspace credits for the new organization (1000 starter credits)
-              await db
-                .insert(workspaceCredits)
-                .values({
-                  organizationId: newOrg.id,
-                  balance: 1000,
-                  totalPurchased: 1000,
-                  totalUsed: 0,
-                  lastPurchase: new Date(),
-                  createdAt: new Date(),
-                  updatedAt: new Date(),
-                });
+              await creditService.record({
+                organizationId: newOrg.id,
+                amount: 1000,
+                type: 'grant',
+                reason: 'Starter credits',
+                referenceType: 'organization',
+                referenceId: newOrg.id,
+              });
 
               console.log(`💰 Starter credits (1000) created for organization ${newOrg.id}`);
             }
@@ -0,0 +1,457 @@
+import express from 'express';
+import crypto from 'crypto';
+import { db } from '../db/index';
+import {
+  organization,
+  searchEngines,
+  serpConfiguration,
+  serpInstanceHealthChecks,
+  serpSearchResults
+} from '../db/schema';
+import { eq, and, asc, desc, count, sql, gte } from 'drizzle-orm';
+import { InstanceService } from '../services/instanceService';
+import { HealthCheckService } from '../services/healthCheckService';
+import { EngineRegistryService } from '../services/engineRegistryService';
+import { CreditService } from '../services/creditService';
+import { StripeEventService } from '../services/stripeEventService';
+import { SEARCH_TYPES } from '../services/verticalService';
+
+const ENGINE_CODE_PATTERN = /^[a-z0-9][a-z0-9 ._-]{0,49}$/;
+
+export class AdminController {
+  private instanceService = new InstanceService();
+  private healthCheckService = new HealthCheckService();
+  private engineRegistry = new EngineRegistryService();
+  private creditService = new CreditService();
+  private stripeEventService = new StripeEventService();
+
+  // Validate instance fields from a request body; `partial` allows omitting required fields (updates)
+  private parseInstanceInput(body: any, partial: boolean): { values?: Record<string, any>; error?: string } {
+    const { name, instanceUrl, priority, maxRequestsPerMinute, notes, isActive } = body || {};
+    const values: Record<string, any> = {};
+
+    if (name !== undefined || !partial) {
+      if (!name || typeof name !== 'string' || !name.trim()) return { error: 'Instance name is required' };
+      values.name = name.trim().slice(0, 100);
+    }
+
+    if (instanceUrl !== undefined || !partial) {
+      let parsed: URL;
+      try {
+        parsed = new URL(instanceUrl);
+      } catch {
+        return { error: 'A valid instanceUrl is required' };
+      }
+      if (!['http:', 'https:'].includes(parsed.protocol)) {
+        return { error: 'instanceUrl must use http or https' };
+      }
+      values.instanceUrl = instanceUrl.trim().replace(/\/+$/, '');
+    }
+
+    if (priority !== undefined) {
+      if (!Number.isInteger(priority)) return { error: 'priority must be an integer' };
+      values.priority = priority;
+    }
+
+    if (maxRequestsPerMinute !== undefined) {
+      if (!Number.isInteger(maxRequestsPerMinute) || maxRequestsPerMinute <= 0) {
+        return { error: 'maxRequestsPerMinute must be a positive integer' };
+      }
+      values.maxRequestsPerMinute = maxRequestsPerMinute;
+    }
+
+    if (notes !== undefined) values.notes = notes === null ? null : String(notes);
+    if (isActive !== undefined) values.isActive = Boolean(isActive);
+
+    return { values };
+  }
+
+  // List all SearXNG instances with health and circuit breaker state
+  async listInstances(req: express.Request, res: express.Response) {
+    try {
+      const instances = await db.select()
+        .from(serpConfiguration)
+        .orderBy(desc(serpConfiguration.priority));
+
+      const circuits = this.instanceService.getCircuitStates();
+
+      res.json({
+        instances: instances.map(instance => ({
+          ...instance,
+          circuit: circuits[instance.instanceUrl] || null,
+        })),
+      });
+    } catch (error) {
+      console.error('Error fetching SearXNG instances:', error);
+      res.status(500).json({ error: 'Failed to fetch instances' });
+    }
+  }
+
+  // Add a SearXNG instance
+  async createInstance(req: express.Request, res: express.Response) {
+    const { values, error } = this.parseInstanceInput(req.body, false);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    try {
+      const [instance] = await db.insert(serpConfiguration)
+        .values(values as typeof serpConfiguration.$inferInsert)
+        .returning();
+
+      res.status(201).json({ message: 'Instance created successfully', instance });
+    } catch (error) {
+      console.error('Error creating SearXNG instance:', error);
+      res.status(500).json({ error: 'Failed to create instance' });
+    }
+  }
+
+  // Edit, disable or reprioritize an instance
+  async updateInstance(req: express.Request, res: express.Response) {
+    const instanceId = parseInt(req.params.id);
+    if (isNaN(instanceId)) {
+      return res.status(400).json({ error: 'Invalid instance ID' });
+    }
+
+    const { values, error } = this.parseInstanceInput(req.body, true);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    try {
+      const [instance] = await db.update(serpConfiguration)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(serpConfiguration.id, instanceId))
+        .returning();
+
+      if (!instance) {
+        return res.status(404).json({ error: 'Instance not found' });
+      }
+
+      res.json({ message: 'Instance updated successfully', instance });
+    } catch (error) {
+      console.error('Error updating SearXNG instance:', error);
+      res.status(500).json({ error: 'Failed to update instance' });
+    }
+  }
+
+  // Delete an instance (its health history cascades)
+  async deleteInstance(req: express.Request, res: express.Response) {
+    const instanceId = parseInt(req.params.id);
+    if (isNaN(instanceId)) {
+      return res.status(400).json({ error: 'Invalid instance ID' });
+    }
+
+    try {
+      const deleted = await db.delete(serpConfiguration)
+        .where(eq(serpConfiguration.id, instanceId))
+        .returning({ id: serpConfiguration.id });
+
+      if (deleted.length === 0) {
+        return res.status(404).json({ error: 'Instance not found' });
+      }
+
+      res.json({ message: 'Instance deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting SearXNG instance:', error);
+      res.status(500).json({ error: 'Failed to delete instance' });
+    }
+  }
+
+  // Run a health check right now
+  async checkInstanceHealth(req: express.Request, res: express.Response) {
+    const instanceId = parseInt(req.params.id);
+    if (isNaN(instanceId)) {
+      return res.status(400).json({ error: 'Invalid instance ID' });
+    }
+
+    try {
+      const result = await this.healthCheckService.checkInstance(instanceId);
+      res.json({ healthCheck: result });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'Instance not found') {
+        return res.status(404).json({ error: 'Instance not found' });
+      }
+      console.error('Error running health check:', error);
+      res.status(500).json({ error: 'Failed to run health check' });
+    }
+  }
+
+  // Recent latency/error stats for an instance, derived from search logs
+  async getInstanceStats(req: express.Request, res: express.Response) {
+    const instanceId = parseInt(req.params.id);
+    const days = parseInt(req.query.days as string) || 7;
+
+    if (isNaN(instanceId)) {
+      return res.status(400).json({ error: 'Invalid instance ID' });
+    }
+
+    try {
+      const [instance] = await db.select()
+        .from(serpConfiguration)
+        .where(eq(serpConfiguration.id, instanceId))
+        .limit(1);
+
+      if (!instance) {
+        return res.status(404).json({ error: 'Instance not found' });
+      }
+
+      const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+      // Requests this instance answered
+      const [served] = await db.select({
+        requests: count(),
+        successful: sql<number>`COUNT(CASE WHEN ${serpSearchResults.status} = 'success' THEN 1 END)`,
+        avgResponseTime: sql<number>`AVG(${serpSearchResults.responseTime})`,
+        p95ResponseTime: sql<number>`PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY ${serpSearchResults.responseTime})`,
+      })
+      .from(serpSearchResults)
+      .where(and(
+        eq(serpSearchResults.instanceUsed, instance.instanceUrl),
+        gte(serpSearchResults.createdAt, since)
+      ));
+
+      // Requests where this instance was tried and failed (before failover or outright)
+      const [failed] = await db.select({ count: count() })
+        .from(serpSearchResults)
+        .where(and(
+          gte(serpSearchResults.createdAt, since),
+          sql`${serpSearchResults.instancesTried}::jsonb @> ${JSON.stringify([{ instance: instance.instanceUrl, status: 'error' }])}::jsonb`
+        ));
+
+      const healthHistory = await db.select()
+        .from(serpInstanceHealthChecks)
+        .where(eq(serpInstanceHealthChecks.instanceId, instanceId))
+        .orderBy(desc(serpInstanceHealthChecks.createdAt))
+        .limit(20);
+
+      const attempts = (served?.requests || 0) + (failed?.count || 0);
+
+      res.json({
+        instance,
+        period_days: days,
+        statistics: {
+          requestsServed: served?.requests || 0,
+          successfulRequests: served?.successful || 0,
+          upstreamErrors: failed?.count || 0,
+          errorRate: attempts > 0 ? Math.round(((failed?.count || 0) / attempts) * 10000) / 100 : 0,
+          avgResponseTime: Math.round(Number(served?.avgResponseTime) || 0),
+          p95ResponseTime: Math.round(Number(served?.p95ResponseTime) || 0),
+        },
+        circuit: this.instanceService.getCircuitStates()[instance.instanceUrl] || null,
+        healthHistory,
+      });
+    } catch (error) {
+      console.error('Error fetching instance stats:', error);
+      res.status(500).json({ error: 'Failed to fetch instance statistics' });
+    }
+  }
+
+  // Validate engine registry fields from a request body; `partial` allows omitting required fields (updates)
+  private parseEngineInput(body: any, partial: boolean): { values?: Record<string, any>; error?: string } {
+    const { code, name, enabled, creditCost, verticals, isDefault } = body || {};
+    const values: Record<string, any> = {};
+
+    if (!partial) {
+      const normalized = typeof code === 'string' ? code.trim().toLowerCase() : '';
+      if (!ENGINE_CODE_PATTERN.test(normalized)) {
+        return { error: 'code must be a SearXNG engine name (lowercase letters, digits, spaces, ".", "_" or "-")' };
+      }
+      values.code = normalized;
+    }
+
+    if (name !== undefined || !partial) {
+      if (!name || typeof name !== 'string' || !name.trim()) return { error: 'Engine name is required' };
+      values.name = name.trim().slice(0, 100);
+    }
+
+    if (creditCost !== undefined) {
+      if (!Number.isInteger(creditCost) || creditCost < 0) return { error: 'creditCost must be a non-negative integer' };
+      values.creditCost = creditCost;
+    }
+
+    if (verticals !== undefined) {
+      if (!Array.isArray(verticals) || verticals.length === 0 || !verticals.every(type => SEARCH_TYPES.includes(type))) {
+        return { error: `verticals must be a non-empty list of: ${SEARCH_TYPES.join(', ')}` };
+      }
+      values.verticals = [...new Set(verticals)];
+    }
+
+    if (enabled !== undefined) values.enabled = Boolean(enabled);
+    if (isDefault !== undefined) values.isDefault = Boolean(isDefault);
+
+    return { values };
+  }
+
+  // List the engine registry, including disabled engines
+  async listEngines(req: express.Request, res: express.Response) {
+    try {
+      const engines = await db.select()
+        .from(searchEngines)
+        .orderBy(asc(searchEngines.id));
+
+      res.json({ engines });
+    } catch (error) {
+      console.error('Error fetching engine registry:', error);
+      res.status(500).json({ error: 'Failed to fetch engines' });
+    }
+  }
+
+  // Register an engine
+  async createEngine(req: express.Request, res: express.Response) {
+    const { values, error } = this.parseEngineInput(req.body, false);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    try {
+      const [engine] = await db.insert(searchEngines)
+        .values(values as typeof searchEngines.$inferInsert)
+        .onConflictDoNothing({ target: searchEngines.code })
+        .returning();
+
+      if (!engine) {
+        return res.status(409).json({ error: 'An engine with this code already exists' });
+      }
+
+      this.engineRegistry.invalidate();
+      res.status(201).json({ message: 'Engine created successfully', engine });
+    } catch (error) {
+      console.error('Error creating engine:', error);
+      res.status(500).json({ error: 'Failed to create engine' });
+    }
+  }
+
+  // Change an engine's name, price, verticals, default flag or availability
+  async updateEngine(req: express.Request, res: express.Response) {
+    const { values, error } = this.parseEngineInput(req.body, true);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    try {
+      const [engine] = await db.update(searchEngines)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(searchEngines.code, req.params.code.toLowerCase()))
+        .returning();
+
+      if (!engine) {
+        return res.status(404).json({ error: 'Engine not found' });
+      }
+
+      this.engineRegistry.invalidate();
+      res.json({ message: 'Engine updated successfully', engine });
+    } catch (error) {
+      console.error('Error updating engine:', error);
+      res.status(500).json({ error: 'Failed to update engine' });
+    }
+  }
+
+  // Remove an engine from the registry
+  async deleteEngine(req: express.Request, res: express.Response) {
+    try {
+      const deleted = await db.delete(searchEngines)
+        .where(eq(searchEngines.code, req.params.code.toLowerCase()))
+        .returning({ id: searchEngines.id });
+
+      if (deleted.length === 0) {
+        return res.status(404).json({ error: 'Engine not found' });
+      }
+
+      this.engineRegistry.invalidate();
+      res.json({ message: 'Engine deleted successfully' });
+    } catch (error) {
+      console.error('Error deleting engine:', error);
+      res.status(500).json({ error: 'Failed to delete engine' });
+    }
+  }
+
+  // Manually credit or debit an organization; recorded as a ledger adjustment
+  async adjustCredits(req: express.Request, res: express.Response) {
+    const { amount, reason } = req.body || {};
+
+    if (!Number.isInteger(amount) || amount === 0) {
+      return res.status(400).json({ error: 'amount must be a non-zero integer' });
+    }
+    if (!reason || typeof reason !== 'string' || !reason.trim()) {
+      return res.status(400).json({ error: 'A reason is required for manual adjustments' });
+    }
+
+    try {
+      const [org] = await db.select({ id: organization.id })
+        .from(organization)
+        .where(eq(organization.id, req.params.organizationId))
+        .limit(1);
+
+      if (!org) {
+        return res.status(404).json({ error: 'Organization not found' });
+      }
+
+      const adjustmentId = crypto.randomUUID();
+      const balance = await this.creditService.record({
+        organizationId: org.id,
+        amount,
+        type: 'adjustment',
+        reason: reason.trim().slice(0, 500),
+        referenceType: 'admin',
+        referenceId: adjustmentId,
+        createdBy: (req as any).userId,
+      });
+
+      res.status(201).json({ message: 'Credits adjusted successfully', adjustment_id: adjustmentId, balance });
+    } catch (error) {
+      console.error('Error adjusting credits:', error);
+      res.status(500).json({ error: 'Failed to adjust credits' });
+    }
+  }
+
+  // Compare cached balances with the ledger; `repair` rewrites mismatched balances from the ledger
+  async reconcileCredits(req: express.Request, res: express.Response, repair: boolean) {
+    try {
+      const mismatches = await this.creditService.reconcile(repair);
+      res.json({ consistent: mismatches.length === 0, repaired: repair, mismatches });
+    } catch (error) {
+      console.error('Error reconciling credits:', error);
+      res.status(500).json({ error: 'Failed to reconcile credits' });
+    }
+  }
+
+  // List recorded Stripe webhook events; failed ones by default
+  async listStripeEvents(req: express.Request, res: express.Response) {
+    const status = req.query.status === 'all' ? undefined : (req.query.status as string) || 'failed';
+    const type = (req.query.type as string) || undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    try {
+      const { events, total } = await this.stripeEventService.listEvents({ status, type }, limit, offset);
+      res.json({ events, total, limit, offset });
+    } catch (error) {
+      console.error('Error fetching Stripe events:', error);
+      res.status(500).json({ error: 'Failed to fetch Stripe events' });
+    }
+  }
+
+  // Replay a stored Stripe event through the webhook handlers
+  async reprocessStripeEvent(req: express.Request, res: express.Response) {
+    try {
+      const existing = await this.stripeEventService.getEvent(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Stripe event not found' });
+      }
+
+      const event = await this.stripeEventService.reprocess(existing.id);
+      if (!event) {
+        return res.status(409).json({ error: 'Stripe event is already being processed' });
+      }
+
+      res.json({ message: 'Stripe event reprocessed successfully', event });
+    } catch (error) {
+      console.error('Error reprocessing Stripe event:', error);
+      res.status(500).json({
+        error: 'Failed to reprocess Stripe event',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+}
@@ -1,13 +1,18 @@
 import express from 'express';
-import crypto from 'crypto';
 import { db } from '../db/index';
 import {
   apiKeys,
   serpSearchResults,
-  serpConfiguration,
   workspaceCredits
 } from '../db/schema';
-import { eq, and, gte, desc, lte, sql, sum } from 'drizzle-orm';
+import { eq, and, gte, desc, lte, sql } from 'drizzle-orm';
+import {
+  SearchService,
+  sendSearchError,
+  sendSearchStream
+} from '../services/searchService';
+import { AutocompleteService, AUTOCOMPLETE_BACKENDS } from '../services/autocompleteService';
+import { OutputFormatService, OUTPUT_FORMATS } from '../services/outputFormatService';
 
 // Credit-based pricing plans (constants)
 const CREDIT_PLANS = {
@@ -44,372 +49,98 @@ const CREDIT_PLANS = {
 // Rate limiting configuration - 100 requests per second (6000 per minute) for all API keys
 const DEFAULT_RATE_LIMIT = 6000; // 100 requests per second = 6000 per minute
 
-// SearXNG Search Engines Configuration
-const SUPPORTED_ENGINES = {
-  'google': { name: 'Google', code: 'google', hasApi: true },
-  'duckduckgo': { name: 'DuckDuckGo', code: 'duckduckgo', hasApi: true },
-  'brave': { name: 'Brave Search', code: 'brave', hasApi: true },
-  'startpage': { name: 'Startpage', code: 'startpage', hasApi: true },
-  'mojeek': { name: 'Mojeek', code: 'mojeek', hasApi: true },
-  'yahoo': { name: 'Yahoo', code: 'yahoo', hasApi: true },
-  'yep': { name: 'Yep', code: 'yep', hasApi: true },
-  'searx': { name: 'SearX', code: 'searx', hasApi: true },
-  'qwant': { name: 'Qwant', code: 'qwant', hasApi: true }
-  // Note: Bing excluded as mentioned - doesn't provide reliable API access
-};
-
-// Default SearXNG instances (fallback list)
-const DEFAULT_SEARXNG_INSTANCES = [
-  'https://searx.stream',
-  'https://search.rhscz.eu',
-  'https://searx.rhscz.eu',
-  'https://searx.tiekoetter.com',
-  'https://northboot.xyz',
-  'https://search.inetol.net',
-  'https://opnxng.com'
-];
-
-interface SerpResult {
-  title: string;
-  url: string;
-  snippet: string;
-  position: number;
-  engine?: string;
-  published_date?: string;
-}
-
-interface SearxngResponse {
-  query: string;
-  number_of_results: number;
-  results: Array<{
-    title: string;
-    url: string;
-    content: string;
-    publishedDate?: string;
-    engine?: string;
-  }>;
-  answers?: Array<{
-    answer: string;
-    url: string;
-  }>;
-  corrections?: Array<string>;
-  infoboxes?: Array<{
-    infobox: string;
-    content: string;
-    urls: Array<{ title: string; url: string }>;
-  }>;
-}
-
-interface SearchOptions {
-  engines?: string[];
-  language?: string;
-  country?: string;
-  safesearch?: number;
-  timeRange?: string;
-  page?: number;
-  category?: string;
-}
-
 export class ApiController {
+  private searchService = new SearchService();
+  private autocompleteService = new AutocompleteService();
+  private outputFormatService = new OutputFormatService();
+
   // Get rate limit - now uniform for all users
   private getRateLimit(creditBalance: number): number {
     return DEFAULT_RATE_LIMIT; // Fixed 100 req/sec for all API keys
   }
 
-  // Get healthy SearXNG instance
-  private async getHealthySearxngInstance(): Promise<string> {
-    try {
-      // Try to get from database configuration first
-      const instances = await db.select()
-        .from(serpConfiguration)
-        .where(and(
-          eq(serpConfiguration.isActive, true),
-          eq(serpConfiguration.healthStatus, 'healthy')
-        ))
-        .orderBy(desc(serpConfiguration.priority));
-
-      if (instances.length > 0) {
-        return instances[0].instanceUrl;
-      }
-
-      // Fallback to default instances
-      return DEFAULT_SEARXNG_INSTANCES[0];
-    } catch (error) {
-      console.error('Error getting SearXNG instance:', error);
-      return DEFAULT_SEARXNG_INSTANCES[0];
-    }
-  }
-
-  // Function to fetch from SearXNG with comprehensive options
-  private async fetchFromSearxng(
-    query: string,
-    options: SearchOptions = {},
-    instance?: string
-  ): Promise<{ results: SerpResult[], metadata: any, instance: string }> {
-    const searxngUrl = instance || await this.getHealthySearxngInstance();
-    const url = `${searxngUrl}/search`;
-
-    // Build search parameters
-    const params = new URLSearchParams({
-      q: query,
-      format: 'json',
-      safesearch: (options.safesearch || 1).toString(),
-      pageno: (options.page || 1).toString(),
-    });
-
-    // Add engines if specified
-    if (options.engines && options.engines.length > 0) {
-      params.append('engines', options.engines.join(','));
-    } else {
-      params.append('engines', 'google,duckduckgo'); // Default engines
-    }
-
-    // Add language if specified
-    if (options.language) {
-      params.append('language', options.language);
-    }
-
-    // Add time range if specified
-    if (options.timeRange) {
-      params.append('time_range', options.timeRange);
-    }
+  async search(req: express.Request, res: express.Response) {
+    const apiKey = (req as any).apiKey;
 
-    // Add category if specified
-    if (options.category) {
-      params.append('categories', options.category);
+    const format = this.outputFormatService.resolveFormat(req.query.format, req.get('Accept'));
+    res.vary('Accept');
+    if (!format) {
+      return res.status(400).json({ error: 'Invalid output format', supported_formats: OUTPUT_FORMATS });
     }
 
-    const startTime = Date.now();
-
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-      const response = await fetch(`${url}?${params}`, {
-        headers: {
-          'User-Agent': 'SERP-API/1.0 (+https://yourdomain.com)',
-          'Accept': 'application/json',
-        },
-        signal: controller.signal
+      const response = await this.searchService.search(this.searchService.parseRequest(req.query), {
+        organizationId: apiKey.organizationId,
+        apiKeyId: apiKey.id,
       });
 
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`SearXNG API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json() as SearxngResponse;
-      const responseTime = Date.now() - startTime;
-
-      const results: SerpResult[] = data.results.map((result, index) => ({
-        title: result.title,
-        url: result.url,
-        snippet: result.content,
-        position: index + 1,
-        engine: result.engine,
-        published_date: result.publishedDate
-      }));
-
-      const metadata = {
-        query: data.query,
-        number_of_results: data.number_of_results,
-        response_time: responseTime,
-        answers: data.answers || [],
-        corrections: data.corrections || [],
-        infoboxes: data.infoboxes || [],
-        search_engines: options.engines,
-        page: options.page || 1,
-        language: options.language,
-        safe_search: options.safesearch,
-        time_range: options.timeRange
-      };
-
-      return { results, metadata, instance: searxngUrl };
-
+      this.outputFormatService.send(res, response, format);
     } catch (error) {
-      console.error('SearXNG fetch error:', error);
-      throw new Error(`Failed to fetch search results: ${error}`);
+      sendSearchError(res, error);
     }
   }
 
-  // Log comprehensive search results
-  private async logSearchResult(
-    organizationId: string,
-    query: string,
-    options: SearchOptions,
-    results: SerpResult[],
-    metadata: any,
-    instance: string,
-    status: string,
-    errorMessage?: string,
-    req?: express.Request,
-    responseTime?: number
-  ) {
+  // Price a search without running it
+  async quote(req: express.Request, res: express.Response) {
+    const apiKey = (req as any).apiKey;
+
     try {
-      await db.insert(serpSearchResults).values({
-        organizationId,
-        searchEngine: (options.engines && options.engines.length === 1) ? options.engines[0] : 'multiple',
-        resultsCount: results.length,
-        status,
-        responseTime,
+      const quote = await this.searchService.quote(this.searchService.parseRequest(req.query), {
+        organizationId: apiKey.organizationId,
+        apiKeyId: apiKey.id,
       });
-    } catch (error) {
-      console.error('Failed to log search result:', error);
-    }
-  }
 
-  // Update credit balance after successful search
-  private async deductCredit(organizationId: string, credits: number = 1) {
-    try {
-      await db.update(workspaceCredits)
-        .set({
-          balance: sql`${workspaceCredits.balance} - ${credits}`,
-          totalUsed: sql`${workspaceCredits.totalUsed} + ${credits}`,
-          updatedAt: new Date()
-        })
-        .where(eq(workspaceCredits.organizationId, organizationId));
+      res.json(quote);
     } catch (error) {
-      console.error('Failed to deduct credit:', error);
+      sendSearchError(res, error);
     }
   }
 
-  // SERP search endpoint handler
-  async search(req: express.Request, res: express.Response) {
-    const startTime = Date.now();
-    const {
-      q: query,
-      engines,
-      language = 'en',
-      country,
-      safesearch = 1,
-      time_range: timeRange,
-      page = 1,
-      category = 'general',
-      cache = 'true'
-    } = req.query;
-
+  // Stream a search over Server-Sent Events as each engine answers
+  async searchStream(req: express.Request, res: express.Response) {
     const apiKey = (req as any).apiKey;
 
-    if (!query || typeof query !== 'string') {
-      return res.status(400).json({
-        error: 'Query parameter "q" is required',
-        example: '/api/search?q=javascript&engines=google,duckduckgo'
-      });
-    }
+    await sendSearchStream(res, emit => {
+      this.searchService.checkStreamParams(req.query);
+      return this.searchService.searchStream(this.searchService.parseRequest(req.query), {
+        organizationId: apiKey.organizationId,
+        apiKeyId: apiKey.id,
+      }, emit);
+    });
+  }
 
-    const searchOptions: SearchOptions = {
-      engines: engines ? (engines as string).split(',').filter(e => e in SUPPORTED_ENGINES) : undefined,
-      language: language as string,
-      country: country as string,
-      safesearch: parseInt(safesearch as string) || 1,
-      timeRange: timeRange as string,
-      page: parseInt(page as string) || 1,
-      category: category as string
-    };
+  // Query suggestions for search boxes
+  async autocomplete(req: express.Request, res: express.Response) {
+    const { q, backend, language } = req.query;
+    const apiKey = (req as any).apiKey;
 
     try {
-      // Validate engines
-      if (searchOptions.engines) {
-        const invalidEngines = searchOptions.engines.filter(e => !(e in SUPPORTED_ENGINES));
-        if (invalidEngines.length > 0) {
-          return res.status(400).json({
-            error: 'Invalid search engines',
-            invalid_engines: invalidEngines,
-            supported_engines: Object.keys(SUPPORTED_ENGINES)
-          });
-        }
-      }
-
-      let results: SerpResult[] = [];
-      let metadata: any = {};
-      let instance: string = '';
-
-      // Fetch results from SearXNG
-      const searchResult = await this.fetchFromSearxng(query, searchOptions);
-      results = searchResult.results;
-      metadata = searchResult.metadata;
-      instance = searchResult.instance;
-
-      const totalResponseTime = Date.now() - startTime;
-
-      // Log the search
-      await this.logSearchResult(
-        apiKey.organizationId,
-        query,
-        searchOptions,
-        results,
-        metadata,
-        instance,
-        'success',
-        undefined,
-        req,
-        totalResponseTime
-      );
-
-      // Update credit balance (always deduct since no caching)
-      const primaryEngine = searchOptions.engines ? searchOptions.engines[0] : 'google';
-      const creditCosts: Record<string, number> = {
-        'google': 1,
-        'bing': 2,
-        'duckduckgo': 2,
-        'brave': 3
-      };
-      const creditsToDeduct = creditCosts[primaryEngine.toLowerCase()] || 1;
-      await this.deductCredit(apiKey.organizationId, creditsToDeduct);
-
-      const responseTime = Date.now() - startTime;
-      const creditBalance = (req as any).creditBalance;
-
-      res.json({
-        query,
-        results,
-        metadata: {
-          ...metadata,
-          cached: false, // Always false since no caching
-          total_response_time: responseTime,
-          api_version: '1.0',
-          instance_used: instance,
-          credits: {
-            balance: creditBalance - creditsToDeduct,
-            used_for_request: creditsToDeduct,
-            rate_limit: (req as any).rateLimit
-          }
-        }
+      const response = await this.autocompleteService.autocomplete({
+        q: q as string,
+        backend: backend as string | undefined,
+        language: language as string | undefined,
+      }, {
+        organizationId: apiKey.organizationId,
+        apiKeyId: apiKey.id,
       });
 
-    } catch (error: any) {
-      console.error('Search error:', error);
-
-      const totalResponseTime = Date.now() - startTime;
-
-      await this.logSearchResult(
-        apiKey.organizationId,
-        query,
-        searchOptions,
-        [],
-        {},
-        '',
-        'error',
-        error?.message || 'Unknown error',
-        req,
-        totalResponseTime
-      );
-
-      res.status(500).json({
-        error: 'Failed to fetch search results',
-        message: error?.message || 'Unknown error'
-      });
+      res.json(response);
+    } catch (error) {
+      sendSearchError(res, error);
     }
   }
 
   // Get supported search engines
   async getEngines(req: express.Request, res: express.Response) {
-    res.json({
-      supported_engines: SUPPORTED_ENGINES,
-      default_engines: ['google', 'duckduckgo'],
-      note: 'Bing is not included due to API access limitations'
-    });
+    try {
+      res.json({
+        ...await this.searchService.getSupportedEngines(),
+        autocomplete_backends: AUTOCOMPLETE_BACKENDS
+      });
+    } catch (error) {
+      console.error('Error fetching engines:', error);
+      res.status(500).json({ error: 'Failed to fetch supported engines' });
+    }
   }
 
   // Get available credit plans
@@ -1,5 +1,12 @@
 import { Request, Response } from 'express';
 import StripeService from '../services/stripe';
+import { CreditService } from '../services/creditService';
+import { BalanceMonitorService } from '../services/balanceMonitorService';
+import { StripeEventService } from '../services/stripeEventService';
+
+const creditService = new CreditService();
+const balanceMonitor = new BalanceMonitorService();
+const stripeEventService = new StripeEventService();
 
 export interface AuthenticatedRequest extends Request {
   userId?: string;
@@ -85,59 +92,177 @@ export class BillingController {
   }
 
   /**
-   * Handle Stripe webhook events
+   * Get the credit ledger for organization (newest first)
    */
-  static async handleWebhook(req: Request, res: Response): Promise<void> {
-    const signature = req.headers['stripe-signature'] as string;
+  static async getLedger(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const organizationId = req.organizationId;
 
-    if (!signature) {
-      res.status(400).json({ error: 'Missing stripe-signature header' });
+    if (!organizationId) {
+      res.status(400).json({ error: 'No organization selected' });
       return;
     }
 
     try {
-      // For Stripe webhooks, we need the raw body as a string
-      const rawBody = JSON.stringify(req.body);
-      const event = StripeService.constructEvent(rawBody, signature);
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const { entries, total } = await creditService.listEntries(organizationId, limit, offset);
 
-      switch (event.type) {
-        case 'payment_intent.succeeded':
-          const paymentIntent = event.data.object as any;
-          console.log(`✅ Payment succeeded: ${paymentIntent.id}`);
+      res.json({
+        entries: entries.map(entry => ({
+          id: entry.id,
+          type: entry.type,
+          amount: entry.amount,
+          balance_after: entry.balanceAfter,
+          reason: entry.reason,
+          reference_type: entry.referenceType,
+          reference_id: entry.referenceId,
+          created_at: entry.createdAt,
+        })),
+        total,
+        limit,
+        offset,
+      });
+    } catch (error) {
+      console.error('Error fetching credit ledger:', error);
+      res.status(500).json({ error: 'Failed to fetch credit ledger' });
+    }
+  }
 
-          // Extract organization ID from metadata
-          const organizationId = paymentIntent.metadata?.organizationId;
-          const amountUsd = paymentIntent.amount / 100; // Convert from cents to USD
+  /**
+   * Get low-balance alert and auto-recharge settings for organization
+   */
+  static async getSettings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const organizationId = req.organizationId;
 
-          if (!organizationId) {
-            console.error('❌ No organization ID in payment metadata');
-            res.status(400).json({ error: 'Missing organization ID' });
-            return;
-          }
+    if (!organizationId) {
+      res.status(400).json({ error: 'No organization selected' });
+      return;
+    }
 
-          // Calculate credits based on the new pricing structure
-          const { credits, discountPercent } = StripeService.calculateCredits(amountUsd);
+    try {
+      const settings = await balanceMonitor.getSettings(organizationId);
+      res.json({ settings: await balanceMonitor.formatSettings(organizationId, settings) });
+    } catch (error) {
+      console.error('Error fetching billing settings:', error);
+      res.status(500).json({ error: 'Failed to fetch billing settings' });
+    }
+  }
 
-          console.log(`💰 Processing payment: $${amountUsd} → ${credits} credits (${discountPercent}% discount) for org ${organizationId}`);
+  /**
+   * Update low-balance alert and auto-recharge settings
+   */
+  static async updateSettings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const organizationId = req.organizationId;
+
+    if (!organizationId) {
+      res.status(400).json({ error: 'No organization selected' });
+      return;
+    }
+
+    try {
+      const current = await balanceMonitor.getSettings(organizationId);
+      const { values, error } = await balanceMonitor.parseSettings(req.body, current);
+      if (error) {
+        res.status(400).json({ error });
+        return;
+      }
+
+      const settings = await balanceMonitor.saveSettings(organizationId, values!);
 
-          await StripeService.handlePaymentSuccess(paymentIntent.id, organizationId, credits, discountPercent);
-          break;
+      // Apply new thresholds to the current balance right away
+      const balance = await creditService.getBalance(organizationId);
+      balanceMonitor.check(organizationId, balance)
+        .catch(checkError => console.error('Balance check failed:', checkError));
 
-        case 'payment_intent.payment_failed':
-          const failedPayment = event.data.object as any;
-          console.log(`❌ Payment failed: ${failedPayment.id}`);
-          break;
+      res.json({ settings: await balanceMonitor.formatSettings(organizationId, settings) });
+    } catch (error) {
+      console.error('Error updating billing settings:', error);
+      res.status(500).json({ error: 'Failed to update billing settings' });
+    }
+  }
 
-        default:
-          console.log(`Unhandled event type: ${event.type}`);
+  /**
+   * Start saving a card for auto-recharge; the frontend confirms the returned Setup Intent
+   */
+  static async setupPaymentMethod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const organizationId = req.organizationId;
+
+    if (!organizationId) {
+      res.status(400).json({ error: 'No organization selected' });
+      return;
+    }
+
+    try {
+      const customerId = await balanceMonitor.ensureCustomer(organizationId);
+      const setupIntent = await StripeService.createSetupIntent(organizationId, customerId);
+      res.json(setupIntent);
+    } catch (error) {
+      console.error('Error creating setup intent:', error);
+      res.status(500).json({ error: 'Failed to start saving payment method' });
+    }
+  }
+
+  /**
+   * Remove the saved card (turns auto-recharge off)
+   */
+  static async removePaymentMethod(req: AuthenticatedRequest, res: Response): Promise<void> {
+    const organizationId = req.organizationId;
+
+    if (!organizationId) {
+      res.status(400).json({ error: 'No organization selected' });
+      return;
+    }
+
+    try {
+      const removed = await balanceMonitor.removePaymentMethod(organizationId);
+      if (!removed) {
+        res.status(404).json({ error: 'No saved payment method' });
+        return;
       }
 
-      res.json({ received: true });
+      res.json({ message: 'Payment method removed; auto-recharge is off' });
+    } catch (error) {
+      console.error('Error removing payment method:', error);
+      res.status(500).json({ error: 'Failed to remove payment method' });
+    }
+  }
+
+  /**
+   * Handle Stripe webhook events. The route is mounted with a raw body parser, so the signature is
+   * verified against the exact bytes Stripe sent; each event is then processed once by id.
+   */
+  static async handleWebhook(req: Request, res: Response): Promise<void> {
+    const signature = req.headers['stripe-signature'] as string;
+
+    if (!signature) {
+      res.status(400).json({ error: 'Missing stripe-signature header' });
+      return;
+    }
+
+    if (!Buffer.isBuffer(req.body)) {
+      res.status(400).json({ error: 'Webhook payload must be sent as application/json' });
+      return;
+    }
+
+    let event;
+    try {
+      event = StripeService.constructEvent(req.body, signature);
     } catch (error) {
-      console.error('Webhook error:', error);
       res.status(400).json({
+        error: error instanceof Error ? error.message : 'Invalid webhook signature'
+      });
+      return;
+    }
+
+    try {
+      const processed = await stripeEventService.handle(event);
+      res.json({ received: true, duplicate: processed === null });
+    } catch (error) {
+      // Recorded as failed; Stripe retries on a 5xx and admins can reprocess it
+      console.error(`Webhook error for event ${event.id}:`, error);
+      res.status(500).json({
         error: error instanceof Error ? error.message : 'Webhook processing failed'
       });
     }
   }
-}
\ No newline at end of file
+}
@@ -3,6 +3,7 @@ import crypto from 'crypto';
 import { db } from '../db/index';
 import { auth } from '../auth';
 import { fromNodeHeaders } from 'better-auth/node';
+import { ApiKeyService } from '../services/apiKeyService';
 import {
   apiKeys,
   serpSearchResults,
@@ -14,6 +15,8 @@ import {
 import { eq, and, desc, count, sql } from 'drizzle-orm';
 
 export class KeysController {
+  private apiKeyService = new ApiKeyService();
+
   // Generate a secure API key
   private generateApiKey(): string {
     const prefix = 'sk_';
@@ -213,6 +216,9 @@ export class KeysController {
           updatedAt: apiKeys.updatedAt,
         });
 
+      // Drop the cached lookup so deactivation takes effect immediately
+      this.apiKeyService.invalidateCachedKey(existingKey[0].keyHash);
+
       res.json({
         message: 'API key updated successfully',
         key: updatedKey[0]
@@ -249,6 +255,7 @@ export class KeysController {
 
       // Delete the key (this will cascade to related logs due to foreign key)
       await db.delete(apiKeys).where(eq(apiKeys.id, keyId));
+      this.apiKeyService.invalidateCachedKey(existingKey[0].keyHash);
 
       res.json({ message: 'API key deleted successfully' });
 
@@ -388,6 +395,9 @@ export class KeysController {
           updatedAt: apiKeys.updatedAt,
         });
 
+      // The old key must stop working right away
+      this.apiKeyService.invalidateCachedKey(existingKey[0].keyHash);
+
       res.json({
         message: 'API key regenerated successfully',
         key: newApiKey, // Only return the actual key once
@@ -1,361 +1,195 @@
 import express from 'express';
-import crypto from 'crypto';
 import { db } from '../db/index';
-import { auth } from '../auth';
-import { fromNodeHeaders } from 'better-auth/node';
-import { SearchService } from '../services/searchService';
 import {
-  apiKeys,
-  serpSearchResults,
-  workspaceCredits
-} from '../db/schema';
+  SearchService,
+  SearchContext,
+  SearchError,
+  sendSearchError,
+  sendSearchStream
+} from '../services/searchService';
+import { SearchJobService } from '../services/searchJobService';
+import { AutocompleteService } from '../services/autocompleteService';
+import { OutputFormatService, OUTPUT_FORMATS } from '../services/outputFormatService';
+import { apiKeys } from '../db/schema';
 import { eq, and } from 'drizzle-orm';
 
-// SearXNG API response interfaces
-interface SearXNGResult {
-  title: string;
-  url: string;
-  content?: string;
-  snippet?: string;
-  engine?: string;
-  publishedDate?: string;
-}
-
-interface SearXNGResponse {
-  results: SearXNGResult[];
-  number_of_results?: number;
-  suggestions?: string[];
-  infobox?: any;
-  answers?: any[];
-  corrections?: string[];
-}
-
-// Our processed result interface
-interface ProcessedResult {
-  title: string;
-  url: string;
-  snippet: string;
-  position: number;
-  engine: string;
-  published_date: string | null;
-}
-
 export class SearchController {
-  // Auth middleware using Better Auth's getSession method
-  async requireAuth(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
-    try {
-      const session = await auth.api.getSession({
-        headers: fromNodeHeaders(req.headers),
-      });
-
-      if (!session || !session.user) {
-        res.status(401).json({ error: 'Authentication required' });
-        return;
-      }
-
-      (req as any).userId = session.user.id;
-      (req as any).organizationId = session.session?.activeOrganizationId || null;
-
-      if (!(req as any).organizationId) {
-        res.status(400).json({ error: 'No active organization found' });
-        return;
-      }
+  private searchService = new SearchService();
+  private searchJobService = new SearchJobService();
+  private autocompleteService = new AutocompleteService();
+  private outputFormatService = new OutputFormatService();
+
+  // Resolve the API key a request is billed against
+  private async resolveSearchContext(req: express.Request): Promise<SearchContext> {
+    const { organizationId, authMethod, apiKey } = req as any;
+
+    if (authMethod === 'api_key' && apiKey) {
+      // External API request - the key was validated by the auth middleware
+      // and the organization was derived from it
+      return { organizationId, apiKeyId: apiKey.id };
+    }
 
-      next();
-    } catch (error) {
-      console.error('Auth error:', error);
-      res.status(401).json({ error: 'Authentication failed' });
+    // Internal dashboard request - find any active API key for this organization
+    const activeKeys = await db.select()
+      .from(apiKeys)
+      .where(and(
+        eq(apiKeys.organizationId, organizationId),
+        eq(apiKeys.isActive, true)
+      ))
+      .limit(1);
+
+    if (!activeKeys[0]) {
+      throw new SearchError('No active API key found. Please create an API key first.', 400);
     }
+
+    return { organizationId, apiKeyId: activeKeys[0].id };
   }
 
   // Perform a search request
   async search(req: express.Request, res: express.Response) {
-    const { 
-      q,
-      query,
-      engines,
-      engine,
-      language,
-      pageno,
-      time_range,
-      format = 'json',
-      safesearch,
-      // Google specific
-      hl,
-      lr,
-      cr,
-      // Bing specific  
-      mkt,
-      // DuckDuckGo specific
-      region,
-      // Brave specific
-      category,
-      spellcheck,
-      ui_lang,
-      country,
-      // Legacy support
-      maxResults = 10,
-      page
-    } = req.body;
-
-    const searchQuery = q || query;
-    const searchEngines = engines || (engine ? [engine] : ['google']);
-    const searchPage = pageno || page || 1;
-
-    if (!searchQuery || typeof searchQuery !== 'string') {
-      return res.status(400).json({ error: 'Query parameter (q) is required' });
-    }
-
-    if (searchQuery.length > 500) {
-      return res.status(400).json({ error: 'Query too long (max 500 characters)' });
+    const format = this.outputFormatService.resolveFormat(req.body?.format, req.get('Accept'));
+    res.vary('Accept');
+    if (!format) {
+      return res.status(400).json({ error: 'Invalid output format', supported_formats: OUTPUT_FORMATS });
     }
 
-    const { organizationId } = req as any;
-
     try {
-      let apiKeyRecord;
-
-      // Check if this is an internal dashboard request (has session auth) or external API request
-      const authHeader = req.headers.authorization;
-
-      if (authHeader && authHeader.startsWith('Bearer ')) {
-        // External API request - validate the provided API key
-        const providedKey = authHeader.substring(7);
-        const keyHash = crypto.createHash('sha256').update(providedKey).digest('hex');
-
-        // Verify API key
-        const apiKeyResult = await db.select()
-          .from(apiKeys)
-          .where(and(
-            eq(apiKeys.keyHash, keyHash),
-            eq(apiKeys.organizationId, organizationId),
-            eq(apiKeys.isActive, true)
-          ))
-          .limit(1);
-
-        if (!apiKeyResult[0]) {
-          return res.status(401).json({ error: 'Invalid or inactive API key' });
-        }
-
-        apiKeyRecord = apiKeyResult[0];
-      } else {
-        // Internal dashboard request - find any active API key for this organization
-        const activeKeys = await db.select()
-          .from(apiKeys)
-          .where(and(
-            eq(apiKeys.organizationId, organizationId),
-            eq(apiKeys.isActive, true)
-          ))
-          .limit(1);
-
-        if (!activeKeys[0]) {
-          return res.status(400).json({
-            error: 'No active API key found. Please create an API key first.'
-          });
-        }
-
-        apiKeyRecord = activeKeys[0];
-      }
-
-      // Check credit balance
-      const credits = await db.select()
-        .from(workspaceCredits)
-        .where(eq(workspaceCredits.organizationId, organizationId))
-        .limit(1);
-
-      const currentCredits = credits[0];
-      if (!currentCredits || (currentCredits.balance || 0) <= 0) {
-        return res.status(402).json({
-          error: 'Insufficient credits. Please purchase more credits to continue.'
-        });
-      }
-
-      const startTime = Date.now();
-
-      try {
-        // Make request to SearXNG with timeout
-        const searxngUrl = process.env.SEARXNG_URL || 'http://localhost:8080';
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-
-        // Build search parameters
-        const searchParams = new URLSearchParams();
-        searchParams.append('q', searchQuery);
-        searchParams.append('format', format);
-        
-        if (searchEngines && Array.isArray(searchEngines)) {
-          searchParams.append('engines', searchEngines.join(','));
-        }
-        
-        // Add common parameters
-        if (language) searchParams.append('language', language);
-        if (safesearch) searchParams.append('safesearch', safesearch);
-        if (time_range && time_range !== 'all') searchParams.append('time_range', time_range);
-        if (searchPage > 1) searchParams.append('pageno', searchPage.toString());
-        
-        // Add engine-specific parameters
-        if (hl) searchParams.append('hl', hl);
-        if (lr) searchParams.append('lr', lr);
-        if (cr) searchParams.append('cr', cr);
-        if (mkt) searchParams.append('mkt', mkt);
-        if (region) searchParams.append('region', region);
-        if (category) searchParams.append('category', category);
-        if (spellcheck !== undefined) searchParams.append('spellcheck', spellcheck.toString());
-        if (ui_lang) searchParams.append('ui_lang', ui_lang);
-        if (country) searchParams.append('country', country);
-
-        // Log all search parameters for debugging
-        console.log('Search parameters:', searchParams.toString());
-        
-        const searchUrl = `${searxngUrl}/search?${searchParams.toString()}`;
-        console.log('Search request to SearXNG:', searchUrl);
+      const context = await this.resolveSearchContext(req);
+      const response = await this.searchService.search(this.searchService.parseRequest(req.body), context);
 
+      return this.outputFormatService.send(res, response, format);
+    } catch (error) {
+      return sendSearchError(res, error);
+    }
+  }
 
-        // call to SerpAPI
-        const searchResponse = await fetch(searchUrl, {
-          signal: controller.signal,
-        });
-
-        
-        console.log('SerpAPI response status:', await searchResponse.json());
-
-        clearTimeout(timeoutId);
+  // Price a search without running it
+  async quote(req: express.Request, res: express.Response) {
+    try {
+      const { organizationId } = req as any;
+      const quote = await this.searchService.quote(this.searchService.parseRequest(req.body), { organizationId });
 
-        if (!searchResponse.ok) {
-          console.log('not ok response =========')
-          throw new Error(`SearXNG returned ${searchResponse.status}: ${searchResponse.statusText}`);
-        }
+      return res.json(quote);
+    } catch (error) {
+      return sendSearchError(res, error);
+    }
+  }
 
-        const searchData = await searchResponse.json() as SearXNGResponse;
-        const responseTime = Date.now() - startTime;
+  // Stream a search over Server-Sent Events as each engine answers
+  async searchStream(req: express.Request, res: express.Response) {
+    await sendSearchStream(res, async emit => {
+      this.searchService.checkStreamParams(req.body);
+      const context = await this.resolveSearchContext(req);
+      await this.searchService.searchStream(this.searchService.parseRequest(req.body), context, emit);
+    });
+  }
 
-        console.log(`response time`, responseTime)
+  // Query suggestions for search boxes
+  async autocomplete(req: express.Request, res: express.Response) {
+    const { q, backend, language } = req.query as Record<string, string | undefined>;
 
-        // Process results
-        const results: ProcessedResult[] = (searchData.results || []).map((result: SearXNGResult, index: number) => ({
-          title: result.title || '',
-          url: result.url || '',
-          snippet: result.content || result.snippet || '',
-          position: index + 1,
-          engine: result.engine || (searchEngines && searchEngines[0]) || 'unknown',
-          published_date: result.publishedDate || null,
-        }));
+    try {
+      const context = await this.resolveSearchContext(req);
+      const response = await this.autocompleteService.autocomplete({ q: q as string, backend, language }, context);
 
-        console.log(`Found ${results.length} results for query "${searchQuery}"`);
-        // Deduct credit and log the request
-        try {
-          const searchService = new SearchService();
-          const primaryEngine = Array.isArray(searchEngines) ? searchEngines[0] : searchEngines;
-          const creditsToDeduct = searchService.getCreditCost(primaryEngine);
-          
-          await db.update(workspaceCredits)
-            .set({
-              balance: (currentCredits.balance || 0) - creditsToDeduct,
-              totalUsed: (currentCredits.totalUsed || 0) + creditsToDeduct,
-              updatedAt: new Date()
-            })
-            .where(eq(workspaceCredits.organizationId, organizationId));
-        } catch (creditError) {
-          console.error('❌ Failed to deduct credits:', creditError);
-          // Continue with the search response even if credit deduction fails
-          // This prevents the API from failing due to credit system issues
-        }
+      return res.json(response);
+    } catch (error) {
+      return sendSearchError(res, error);
+    }
+  }
 
-        // Update API key usage
-        const currentApiKey = apiKeyRecord;
-        await db.update(apiKeys)
-          .set({
-            requestCount: (currentApiKey.requestCount || 0) + 1,
-          })
-          .where(eq(apiKeys.id, currentApiKey.id));
+  // Run many searches in one call
+  async searchBatch(req: express.Request, res: express.Response) {
+    const { queries } = req.body || {};
 
-        // Generate unique search result ID
-        const searchResultId = crypto.randomUUID();
+    if (!Array.isArray(queries) || queries.length === 0) {
+      return res.status(400).json({ error: 'Request body must include a non-empty "queries" array' });
+    }
 
-        // Log search result to database
-        await db.insert(serpSearchResults)
-          .values({
-            organizationId,
-            searchEngine: (searchEngines && searchEngines.length === 1) ? searchEngines[0] : 'multiple',
-            resultsCount: results.length,
-            responseTime,
-            status: 'success',
-          });
+    try {
+      const context = await this.resolveSearchContext(req);
+      const batch = await this.searchService.searchBatch(
+        queries.map((item: any) => this.searchService.parseRequest(item)),
+        context
+      );
 
-        // Return successful response
-        return res.json({
-          id: searchResultId,
-          query: searchQuery,
-          engines: searchEngines,
-          results,
-          metadata: {
-            number_of_results: searchData.number_of_results || results.length,
-            response_time: responseTime,
-            timestamp: new Date().toISOString(),
-            credits_used: 1,
-          },
-          answers: searchData.answers || [],
-          corrections: searchData.corrections || [],
-          infoboxes: searchData.infobox ? [searchData.infobox] : [],
-          suggestions: searchData.suggestions || [],
-        });
+      return res.json(batch);
+    } catch (error) {
+      return sendSearchError(res, error);
+    }
+  }
 
-      } catch (searchError) {
-        const responseTime = Date.now() - startTime;
+  // Submit a search (body with `q`) or a batch (body with `queries`) to run in the background
+  async createJob(req: express.Request, res: express.Response) {
+    const { queries, callback_url } = req.body || {};
 
-        // Do not deduct credits for failed requests. Credits are only charged on successful searches.
-        // This avoids charging users for transient errors or playground exploratory requests.
+    if (queries !== undefined && (!Array.isArray(queries) || queries.length === 0)) {
+      return res.status(400).json({ error: '"queries" must be a non-empty array' });
+    }
 
-        // Generate unique search result ID for failed request
-        const searchResultId = crypto.randomUUID();
+    try {
+      const context = await this.resolveSearchContext(req);
+      const job = Array.isArray(queries)
+        ? await this.searchJobService.createJob(
+            'batch',
+            queries.map((item: any) => this.searchService.parseRequest(item)),
+            context,
+            callback_url
+          )
+        : await this.searchJobService.createJob('search', [this.searchService.parseRequest(req.body)], context, callback_url);
+
+      return res.status(202).json(this.searchJobService.formatJob(job));
+    } catch (error) {
+      return sendSearchError(res, error);
+    }
+  }
 
-        // Log failed search
-        await db.insert(serpSearchResults)
-          .values({
-            organizationId,
-            searchEngine: engine,
-            resultsCount: 0,
-            responseTime,
-            status: 'error',
-          });
+  // Poll a job; results are included once it has finished
+  async getJob(req: express.Request, res: express.Response) {
+    try {
+      const job = await this.searchJobService.getJob(req.params.id, (req as any).organizationId);
+      if (!job) {
+        return res.status(404).json({ error: 'Job not found' });
+      }
 
-        // Update API key request count even for failed requests
-        const failedApiKey = apiKeyRecord;
-        if (failedApiKey) {
-          await db.update(apiKeys)
-            .set({
-              requestCount: (failedApiKey.requestCount || 0) + 1,
-            })
-            .where(eq(apiKeys.id, failedApiKey.id));
-        }
+      const finished = job.status === 'completed' || job.status === 'failed';
+      const results = finished ? await this.searchJobService.getJobResults(job.id) : [];
+
+      return res.json({
+        ...this.searchJobService.formatJob(job),
+        results: finished
+          ? results.map(result => ({
+              index: result.itemIndex,
+              status: result.status,
+              ...(result.response ? { response: result.response } : {}),
+              ...(result.error ? { error: result.error } : {}),
+            }))
+          : null,
+      });
+    } catch (error) {
+      console.error('Error fetching search job:', error);
+      return res.status(500).json({ error: 'Failed to fetch job' });
+    }
+  }
 
-        return res.status(500).json({
-          error: 'Search failed',
-          details: searchError instanceof Error ? searchError.message : 'Unknown error'
-        });
-      }
+  // List the organization's recent jobs (without results)
+  async listJobs(req: express.Request, res: express.Response) {
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const offset = parseInt(req.query.offset as string) || 0;
 
+    try {
+      const jobs = await this.searchJobService.listJobs((req as any).organizationId, limit, offset);
+      return res.json({ jobs: jobs.map(job => this.searchJobService.formatJob(job)), limit, offset });
     } catch (error) {
-      console.error('Search request error:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      console.error('Error fetching search jobs:', error);
+      return res.status(500).json({ error: 'Failed to fetch jobs' });
     }
   }
 
   // Get list of supported search engines
   async getEngines(req: express.Request, res: express.Response) {
     try {
-      // Return static list of supported engines
-      // In a real implementation, this might be dynamic based on SearXNG configuration
-      const engines = [
-        { name: 'google', cost: 1, enabled: true },
-        { name: 'bing', cost: 1, enabled: true },
-        { name: 'duckduckgo', cost: 1, enabled: true },
-        { name: 'brave', cost: 1, enabled: true },
-        { name: 'startpage', cost: 1, enabled: true },
-        { name: 'yahoo', cost: 1, enabled: true },
-      ];
-
-      res.json(engines);
+      res.json(await this.searchService.getSupportedEngines());
     } catch (error) {
       console.error('Error fetching engines:', error);
       res.status(500).json({ error: 'Failed to fetch supported engines' });
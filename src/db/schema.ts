@@ -121,20 +121,18 @@ export const apiKeys = pgTable('api_keys', {
      index('key_hash_idx').on(table.keyHash),
 ]);
 
-// Search queries cache table - COMMENTED OUT (not needed for now)
-// export const searchCache = pgTable('search_cache', {
-//     id: serial('id').primaryKey(),
-//     organizationId: text('organization_id').references(() => organization.id).notNull(),
-//     query: varchar('query', { length: 500 }).notNull(),
-//     queryHash: varchar('query_hash', { length: 64 }).unique().notNull(),
-//     results: text('results').notNull(), // JSON string
-//     expiresAt: timestamp('expires_at').notNull(),
-//     createdAt: timestamp('created_at').defaultNow(),
-// }, (table) => [
-//     index('search_cache_organization_id_idx').on(table.organizationId),
-//     index('query_hash_idx').on(table.queryHash),
-//     index('expires_at_idx').on(table.expiresAt),
-// ]);
+// Search results cache table (shared across organizations, keyed on normalized request)
+export const searchCache = pgTable('search_cache', {
+    id: serial('id').primaryKey(),
+    query: varchar('query', { length: 500 }).notNull(),
+    queryHash: varchar('query_hash', { length: 64 }).unique().notNull(),
+    results: text('results').notNull(), // JSON string
+    expiresAt: timestamp('expires_at').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+    index('query_hash_idx').on(table.queryHash),
+    index('expires_at_idx').on(table.expiresAt),
+]);
 
 // Request logs table - REMOVED (using serpSearchResults instead)
 // export const requestLogs = pgTable('request_logs', {
@@ -161,6 +159,10 @@ export const serpSearchResults = pgTable('serp_search_results', {
     resultsCount: integer('results_count').default(0),
     status: varchar('status', { length: 20 }).notNull().default('success'), // success, error, rate_limited
     responseTime: integer('response_time'), // in milliseconds
+    instanceUsed: varchar('instance_used', { length: 255 }), // SearXNG instance that answered
+    instancesTried: json('instances_tried'), // [{ instance, status, http_status, error, response_time }]
+    creditsCharged: integer('credits_charged'), // Credits billed for the request
+    pricing: json('pricing'), // Price breakdown: { type, engines: [{ engine, cost_per_page }], cost_per_page, pages, cached, total }
     createdAt: timestamp('created_at').defaultNow(),
 }, (table) => [
     index('serp_organization_id_idx').on(table.organizationId),
@@ -170,6 +172,45 @@ export const serpSearchResults = pgTable('serp_search_results', {
     index('serp_status_idx').on(table.status),
 ]);
 
+// Asynchronous search jobs (a single search or a batch)
+export const searchJobs = pgTable('search_jobs', {
+    id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+    organizationId: text('organization_id').references(() => organization.id).notNull(),
+    apiKeyId: integer('api_key_id').references(() => apiKeys.id, { onDelete: 'set null' }),
+    type: varchar('type', { length: 20 }).notNull(), // search, batch
+    status: varchar('status', { length: 20 }).notNull().default('queued'), // queued, running, completed, failed
+    request: json('request').notNull(), // Search options for each item
+    itemsTotal: integer('items_total').notNull().default(0),
+    itemsCompleted: integer('items_completed').notNull().default(0),
+    itemsFailed: integer('items_failed').notNull().default(0),
+    creditsCharged: integer('credits_charged').notNull().default(0),
+    error: text('error'),
+    callbackUrl: text('callback_url'),
+    callbackStatus: varchar('callback_status', { length: 20 }), // pending, delivered, failed
+    callbackAttempts: integer('callback_attempts').notNull().default(0),
+    createdAt: timestamp('created_at').defaultNow(),
+    startedAt: timestamp('started_at'),
+    completedAt: timestamp('completed_at'),
+    expiresAt: timestamp('expires_at').notNull(), // Job and results are deleted after this
+}, (table) => [
+    index('search_jobs_organization_id_idx').on(table.organizationId),
+    index('search_jobs_status_idx').on(table.status),
+    index('search_jobs_expires_at_idx').on(table.expiresAt),
+]);
+
+// Per-item results of an asynchronous search job
+export const searchJobResults = pgTable('search_job_results', {
+    id: serial('id').primaryKey(),
+    jobId: text('job_id').references(() => searchJobs.id, { onDelete: 'cascade' }).notNull(),
+    itemIndex: integer('item_index').notNull(),
+    status: varchar('status', { length: 20 }).notNull(), // success, error
+    response: json('response'), // Search response for successful items
+    error: json('error'), // Error details for failed items
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+    index('search_job_results_job_id_idx').on(table.jobId),
+]);
+
 // SERP Usage Analytics table (for aggregated stats)
 // export const serpUsageAnalytics = pgTable('serp_usage_analytics', {
 //     id: serial('id').primaryKey(),
@@ -201,7 +242,7 @@ export const serpConfiguration = pgTable('serp_configuration', {
     priority: integer('priority').default(1), // Higher priority instances used first
     maxRequestsPerMinute: integer('max_requests_per_minute').default(30),
     lastHealthCheck: timestamp('last_health_check'),
-    healthStatus: varchar('health_status', { length: 20 }).default('unknown'), // healthy, unhealthy, unknown
+    healthStatus: varchar('health_status', { length: 20 }).default('unknown'), // healthy, degraded, unhealthy, unknown
     responseTime: integer('response_time'), // Last measured response time
     supportedEngines: json('supported_engines'), // Array of supported search engines
     notes: text('notes'),
@@ -213,13 +254,45 @@ export const serpConfiguration = pgTable('serp_configuration', {
     index('serp_config_health_idx').on(table.healthStatus),
 ]);
 
-// Workspace Credit Balance table (replaces subscription system)
+// Search engine registry: availability, pricing and defaults for every SearXNG engine we expose
+export const searchEngines = pgTable('search_engines', {
+    id: serial('id').primaryKey(),
+    code: varchar('code', { length: 50 }).notNull().unique(), // SearXNG engine name, e.g. "google" or "google images"
+    name: varchar('name', { length: 100 }).notNull(), // Display name
+    enabled: boolean('enabled').notNull().default(true),
+    creditCost: integer('credit_cost').notNull().default(1), // Credits per upstream page
+    verticals: json('verticals').$type<string[]>().notNull().default(['web']), // Search types the engine serves
+    isDefault: boolean('is_default').notNull().default(false), // Used when a request names no engines
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => [
+    index('search_engines_enabled_idx').on(table.enabled),
+]);
+
+// SearXNG instance health check history (short rolling window per instance)
+export const serpInstanceHealthChecks = pgTable('serp_instance_health_checks', {
+    id: serial('id').primaryKey(),
+    instanceId: integer('instance_id').references(() => serpConfiguration.id, { onDelete: 'cascade' }).notNull(),
+    outcome: varchar('outcome', { length: 20 }).notNull(), // ok, slow, failed
+    healthStatus: varchar('health_status', { length: 20 }).notNull(), // status assigned after this check
+    responseTime: integer('response_time'), // in milliseconds
+    resultsCount: integer('results_count'),
+    error: text('error'),
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+    index('health_checks_instance_id_idx').on(table.instanceId),
+    index('health_checks_created_at_idx').on(table.createdAt),
+]);
+
+// Workspace Credit Balance table (replaces subscription system); balance and totals are a cache of credit_ledger
 export const workspaceCredits = pgTable('workspace_credits', {
     id: serial('id').primaryKey(),
     organizationId: text('organization_id').references(() => organization.id).notNull(),
     balance: integer('balance').default(0), // Credits remaining (1 credit = 1 search request)
     totalPurchased: integer('total_purchased').default(0), // Total credits ever purchased
     totalUsed: integer('total_used').default(0), // Total credits used
+    autocompleteCalls: integer('autocomplete_calls').notNull().default(0), // Autocomplete calls not yet billed (1 credit per N calls)
+    reserved: integer('reserved').notNull().default(0), // Credits held by in-flight requests (sum of credit_reservations)
     lastPurchase: timestamp('last_purchase'),
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
@@ -227,6 +300,72 @@ export const workspaceCredits = pgTable('workspace_credits', {
     index('workspace_credits_org_id_idx').on(table.organizationId),
 ]);
 
+// Append-only credit ledger: every change to a balance is one signed entry
+export const creditLedger = pgTable('credit_ledger', {
+    id: serial('id').primaryKey(),
+    organizationId: text('organization_id').references(() => organization.id).notNull(),
+    amount: integer('amount').notNull(), // Signed: positive adds credits, negative removes them
+    balanceAfter: integer('balance_after').notNull(), // Cached balance right after this entry
+    type: varchar('type', { length: 20 }).notNull(), // grant, purchase, charge, refund, adjustment
+    reason: text('reason').notNull(),
+    referenceType: varchar('reference_type', { length: 30 }), // search, batch, autocomplete, payment_intent, organization, admin
+    referenceId: varchar('reference_id', { length: 255 }),
+    createdBy: text('created_by'), // User behind a manual adjustment
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => [
+    index('credit_ledger_org_id_idx').on(table.organizationId),
+    index('credit_ledger_created_at_idx').on(table.createdAt),
+    index('credit_ledger_reference_idx').on(table.referenceType, table.referenceId),
+]);
+
+// Credits held for in-flight requests; settled or released when the request finishes, swept when expired
+export const creditReservations = pgTable('credit_reservations', {
+    id: text('id').primaryKey().$defaultFn(() => crypto.randomUUID()),
+    organizationId: text('organization_id').references(() => organization.id, { onDelete: 'cascade' }).notNull(),
+    amount: integer('amount').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+    expiresAt: timestamp('expires_at').notNull(),
+}, (table) => [
+    index('credit_reservations_org_id_idx').on(table.organizationId),
+    index('credit_reservations_expires_at_idx').on(table.expiresAt),
+]);
+
+// Stripe webhook events, recorded for idempotent processing and replay
+export const stripeEvents = pgTable('stripe_events', {
+    id: varchar('id', { length: 255 }).primaryKey(), // Stripe event id (evt_...)
+    type: varchar('type', { length: 100 }).notNull(),
+    status: varchar('status', { length: 20 }).notNull(), // processing, processed, ignored, failed
+    payload: json('payload').notNull(), // The verified event, replayed on reprocessing
+    attempts: integer('attempts').notNull().default(1),
+    error: text('error'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+    processedAt: timestamp('processed_at'),
+}, (table) => [
+    index('stripe_events_status_idx').on(table.status),
+    index('stripe_events_type_idx').on(table.type),
+]);
+
+// Per-organization low-balance alerts and auto-recharge
+export const billingSettings = pgTable('billing_settings', {
+    id: serial('id').primaryKey(),
+    organizationId: text('organization_id').references(() => organization.id, { onDelete: 'cascade' }).notNull().unique(),
+    lowBalanceThreshold: integer('low_balance_threshold'), // Alert when the balance drops below this; null disables alerts
+    alertWebhookUrl: text('alert_webhook_url'),
+    lowBalanceAlertedAt: timestamp('low_balance_alerted_at'), // Set while below the threshold, so each drop alerts once
+    autoRechargeEnabled: boolean('auto_recharge_enabled').notNull().default(false),
+    autoRechargeThreshold: integer('auto_recharge_threshold'), // Recharge when the balance drops below this
+    autoRechargeAmountUsd: integer('auto_recharge_amount_usd'), // Whole dollars charged per recharge
+    autoRechargeMonthlyCapUsd: integer('auto_recharge_monthly_cap_usd'), // Most charged automatically per calendar month
+    stripeCustomerId: varchar('stripe_customer_id', { length: 255 }),
+    stripePaymentMethodId: varchar('stripe_payment_method_id', { length: 255 }), // Saved card charged off-session
+    autoRechargeAttemptedAt: timestamp('auto_recharge_attempted_at'), // Last attempt; cleared on success, holds off retries after a failure
+    autoRechargeFailures: integer('auto_recharge_failures').notNull().default(0), // Consecutive failures
+    autoRechargeLastError: text('auto_recharge_last_error'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+});
+
 // Credit Purchase History table
 export const creditPurchases = pgTable('credit_purchases', {
     id: serial('id').primaryKey(),
@@ -253,6 +392,7 @@ export const stripePaymentIntents = pgTable('stripe_payment_intents', {
     status: varchar('status', { length: 50 }).notNull(), // stripe payment intent status
     creditsRequested: integer('credits_requested').notNull(),
     discountPercent: integer('discount_percent').default(0),
+    source: varchar('source', { length: 20 }).notNull().default('checkout'), // checkout, auto_recharge
     metadata: json('metadata'), // Additional Stripe metadata
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
@@ -1,12 +1,18 @@
 import express from 'express';
 import { auth } from '../auth';
 import { fromNodeHeaders } from 'better-auth/node';
+import { ApiKeyService, ApiKeyContext } from '../services/apiKeyService';
 
 export interface AuthenticatedRequest extends express.Request {
   userId?: string;
+  userEmail?: string;
   organizationId?: string | null;
+  apiKey?: ApiKeyContext;
+  authMethod?: 'session' | 'api_key';
 }
 
+const apiKeyService = new ApiKeyService();
+
 /**
  * Auth middleware using Better Auth's getSession method
  */
@@ -26,6 +32,7 @@ export async function requireAuth(
     }
 
     req.userId = session.user.id;
+    req.userEmail = session.user.email;
     req.organizationId = session.session?.activeOrganizationId || null;
     
     next();
@@ -35,6 +42,132 @@ export async function requireAuth(
   }
 }
 
+/**
+ * Pull a raw API key from the Authorization (Bearer) or X-API-Key header
+ */
+function extractApiKey(req: express.Request): string | null {
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7).trim() || null;
+  }
+
+  const headerKey = req.headers['x-api-key'];
+  return typeof headerKey === 'string' && headerKey ? headerKey : null;
+}
+
+/**
+ * Resolve a raw API key and attach it (and its organization) to the request.
+ * Responds with 401/500 and returns false when the key cannot be used.
+ */
+async function attachApiKey(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  rawKey: string
+): Promise<boolean> {
+  try {
+    const apiKey = await apiKeyService.resolveApiKey(rawKey);
+
+    if (!apiKey) {
+      res.status(401).json({
+        error: { message: 'Invalid or inactive API key', status: 401, code: 'invalid_api_key' }
+      });
+      return false;
+    }
+
+    req.apiKey = apiKey;
+    req.organizationId = apiKey.organizationId;
+    req.authMethod = 'api_key';
+    return true;
+  } catch (error) {
+    console.error('❌ API key middleware error:', error);
+    res.status(500).json({
+      error: { message: 'Failed to validate API key', status: 500 }
+    });
+    return false;
+  }
+}
+
+/**
+ * API key middleware for the public API (X-API-Key or Bearer header)
+ */
+export async function requireApiKey(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  next: express.NextFunction
+): Promise<void> {
+  const rawKey = extractApiKey(req);
+
+  if (!rawKey) {
+    res.status(401).json({
+      error: { message: 'API key required', status: 401, code: 'missing_api_key' }
+    });
+    return;
+  }
+
+  if (await attachApiKey(req, res, rawKey)) {
+    next();
+  }
+}
+
+/**
+ * Accepts either a standalone API key or a dashboard session.
+ *
+ * Precedence: if an API key is presented it is the only credential considered
+ * and the organization comes from the key (an invalid key is rejected, never
+ * retried against the session). Otherwise the Better Auth session is used and
+ * its active organization is required.
+ */
+export async function requireSessionOrApiKey(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  next: express.NextFunction
+): Promise<void> {
+  const rawKey = extractApiKey(req);
+
+  if (rawKey) {
+    if (await attachApiKey(req, res, rawKey)) {
+      next();
+    }
+    return;
+  }
+
+  try {
+    const session = await auth.api.getSession({
+      headers: fromNodeHeaders(req.headers),
+    });
+
+    if (!session || !session.user) {
+      res.status(401).json({
+        error: {
+          message: 'Authentication required: provide an API key or sign in',
+          status: 401,
+          code: 'missing_credentials'
+        }
+      });
+      return;
+    }
+
+    req.userId = session.user.id;
+    req.userEmail = session.user.email;
+    req.organizationId = session.session?.activeOrganizationId || null;
+    req.authMethod = 'session';
+
+    if (!req.organizationId) {
+      res.status(400).json({
+        error: { message: 'No organization selected', status: 400, code: 'no_active_organization' }
+      });
+      return;
+    }
+
+    next();
+  } catch (error) {
+    console.error('❌ Auth middleware error:', error);
+    res.status(401).json({
+      error: { message: 'Invalid session', status: 401, code: 'invalid_session' }
+    });
+  }
+}
+
 /**
  * Middleware to require organization context
  */
@@ -50,6 +183,27 @@ export function requireOrganization(
   next();
 }
 
+/**
+ * Middleware to require a platform admin (run after requireAuth).
+ * Admins are listed by email in PLATFORM_ADMIN_EMAILS (comma separated).
+ */
+export function requirePlatformAdmin(
+  req: AuthenticatedRequest,
+  res: express.Response,
+  next: express.NextFunction
+): void {
+  const adminEmails = (process.env.PLATFORM_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!req.userEmail || !adminEmails.includes(req.userEmail.toLowerCase())) {
+    res.status(403).json({ error: 'Platform admin access required' });
+    return;
+  }
+  next();
+}
+
 /**
  * Error handling middleware
  */
@@ -0,0 +1,86 @@
+import express, { Router } from 'express';
+import { requireAuth, requirePlatformAdmin } from '../middleware/auth';
+import { AdminController } from '../controllers/adminController';
+
+const router: Router = express.Router();
+const adminController = new AdminController();
+
+// All admin routes require a signed-in platform admin
+router.use(requireAuth, requirePlatformAdmin);
+
+// GET /instances - List SearXNG instances
+router.get('/instances', async (req: express.Request, res: express.Response) => {
+  await adminController.listInstances(req, res);
+});
+
+// POST /instances - Add a SearXNG instance
+router.post('/instances', async (req: express.Request, res: express.Response) => {
+  await adminController.createInstance(req, res);
+});
+
+// PUT /instances/:id - Edit, disable or reprioritize an instance
+router.put('/instances/:id', async (req: express.Request, res: express.Response) => {
+  await adminController.updateInstance(req, res);
+});
+
+// DELETE /instances/:id - Remove an instance
+router.delete('/instances/:id', async (req: express.Request, res: express.Response) => {
+  await adminController.deleteInstance(req, res);
+});
+
+// POST /instances/:id/health-check - Run an on-demand health check
+router.post('/instances/:id/health-check', async (req: express.Request, res: express.Response) => {
+  await adminController.checkInstanceHealth(req, res);
+});
+
+// GET /instances/:id/stats - Recent latency and error statistics
+router.get('/instances/:id/stats', async (req: express.Request, res: express.Response) => {
+  await adminController.getInstanceStats(req, res);
+});
+
+// GET /engines - List the engine registry
+router.get('/engines', async (req: express.Request, res: express.Response) => {
+  await adminController.listEngines(req, res);
+});
+
+// POST /engines - Register an engine
+router.post('/engines', async (req: express.Request, res: express.Response) => {
+  await adminController.createEngine(req, res);
+});
+
+// PUT /engines/:code - Change an engine's price, verticals, default flag or availability
+router.put('/engines/:code', async (req: express.Request, res: express.Response) => {
+  await adminController.updateEngine(req, res);
+});
+
+// DELETE /engines/:code - Remove an engine
+router.delete('/engines/:code', async (req: express.Request, res: express.Response) => {
+  await adminController.deleteEngine(req, res);
+});
+
+// GET /credits/reconcile - Compare cached balances with the credit ledger
+router.get('/credits/reconcile', async (req: express.Request, res: express.Response) => {
+  await adminController.reconcileCredits(req, res, false);
+});
+
+// POST /credits/reconcile - Rebuild mismatched balances from the credit ledger
+router.post('/credits/reconcile', async (req: express.Request, res: express.Response) => {
+  await adminController.reconcileCredits(req, res, true);
+});
+
+// POST /credits/:organizationId/adjustments - Manually credit or debit an organization
+router.post('/credits/:organizationId/adjustments', async (req: express.Request, res: express.Response) => {
+  await adminController.adjustCredits(req, res);
+});
+
+// GET /stripe-events - List recorded Stripe webhook events (?status=failed by default, or all)
+router.get('/stripe-events', async (req: express.Request, res: express.Response) => {
+  await adminController.listStripeEvents(req, res);
+});
+
+// POST /stripe-events/:id/reprocess - Replay a stored Stripe event
+router.post('/stripe-events/:id/reprocess', async (req: express.Request, res: express.Response) => {
+  await adminController.reprocessStripeEvent(req, res);
+});
+
+export default router;
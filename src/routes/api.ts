@@ -1,27 +1,10 @@
 import express, { Router } from 'express';
 import { ApiController } from '../controllers/apiController';
+import { requireApiKey } from '../middleware/auth';
 
 const router: Router = express.Router();
 const apiController = new ApiController();
 
-// Middleware to validate API key (simplified for now)
-async function validateApiKey(req: express.Request, res: express.Response, next: express.NextFunction) {
-  const apiKey = req.headers['x-api-key'] as string;
-
-  if (!apiKey) {
-    return res.status(401).json({ error: 'API key required' });
-  }
-
-  // For now, we'll set a temporary apiKey object
-  // In production, you'd validate against the database
-  (req as any).apiKey = {
-    id: 1,
-    organizationId: 'temp-org',
-    name: 'temp-key'
-  };
-  next();
-}
-
 // Basic rate limiting middleware
 async function checkRateLimit(req: express.Request, res: express.Response, next: express.NextFunction) {
   // Simple in-memory rate limiting
@@ -37,7 +20,6 @@ async function checkRateLimit(req: express.Request, res: express.Response, next:
 
   if (!clientData || now > clientData.resetTime) {
     rateLimitMap.set(clientId, { count: 1, resetTime: now + 15 * 60 * 1000 });
-    (req as any).creditBalance = 1000;
     (req as any).rateLimit = 6000;
     next();
     return;
@@ -51,16 +33,30 @@ async function checkRateLimit(req: express.Request, res: express.Response, next:
   }
 
   clientData.count++;
-  (req as any).creditBalance = 1000;
   (req as any).rateLimit = 6000;
   next();
 }
 
 // Routes
-router.get('/search', validateApiKey, checkRateLimit, (req: express.Request, res: express.Response) => {
+router.get('/search', requireApiKey, checkRateLimit, (req: express.Request, res: express.Response) => {
   apiController.search(req, res);
 });
 
+// Price a search without running it (nothing is charged)
+router.get('/search/quote', requireApiKey, checkRateLimit, (req: express.Request, res: express.Response) => {
+  apiController.quote(req, res);
+});
+
+// Server-Sent Events variant of /search, streaming each engine's results as they arrive
+router.get('/search/stream', requireApiKey, checkRateLimit, (req: express.Request, res: express.Response) => {
+  apiController.searchStream(req, res);
+});
+
+// Query suggestions, billed at a fraction of a credit per call
+router.get('/autocomplete', requireApiKey, checkRateLimit, (req: express.Request, res: express.Response) => {
+  apiController.autocomplete(req, res);
+});
+
 router.get('/engines', (req: express.Request, res: express.Response) => {
   apiController.getEngines(req, res);
 });
@@ -69,19 +65,19 @@ router.get('/plans', (req: express.Request, res: express.Response) => {
   apiController.getPlans(req, res);
 });
 
-router.get('/usage', validateApiKey, (req: express.Request, res: express.Response) => {
+router.get('/usage', requireApiKey, (req: express.Request, res: express.Response) => {
   apiController.getUsage(req, res);
 });
 
-router.get('/dashboard/stats', validateApiKey, (req: express.Request, res: express.Response) => {
+router.get('/dashboard/stats', requireApiKey, (req: express.Request, res: express.Response) => {
   apiController.getDashboardStats(req, res);
 });
 
-router.get('/dashboard/usage-chart', validateApiKey, (req: express.Request, res: express.Response) => {
+router.get('/dashboard/usage-chart', requireApiKey, (req: express.Request, res: express.Response) => {
   apiController.getUsageChart(req, res);
 });
 
-router.get('/dashboard/credits', validateApiKey, (req: express.Request, res: express.Response) => {
+router.get('/dashboard/credits', requireApiKey, (req: express.Request, res: express.Response) => {
   apiController.getCredits(req, res);
 });
 
@@ -13,7 +13,18 @@ router.post('/create-payment-intent', requireAuth, BillingController.createPayme
 // Get payment history
 router.get('/payment-history', requireAuth, BillingController.getPaymentHistory);
 
-// Stripe webhook endpoint
-router.post('/webhook', express.json({ type: 'application/json' }), BillingController.handleWebhook);
+// Get credit ledger (every grant, purchase, charge, refund and adjustment)
+router.get('/ledger', requireAuth, BillingController.getLedger);
+
+// Low-balance alert and auto-recharge settings
+router.get('/settings', requireAuth, BillingController.getSettings);
+router.put('/settings', requireAuth, BillingController.updateSettings);
+
+// Save or remove the card charged by auto-recharge
+router.post('/payment-method', requireAuth, BillingController.setupPaymentMethod);
+router.delete('/payment-method', requireAuth, BillingController.removePaymentMethod);
+
+// Stripe webhook endpoint (the raw body parser is mounted in app.ts, ahead of express.json)
+router.post('/webhook', BillingController.handleWebhook);
 
 export default router;
\ No newline at end of file
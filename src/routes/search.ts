@@ -1,15 +1,50 @@
 import express, { Router } from 'express';
-import { requireAuth, requireOrganization } from '../middleware/auth';
+import { requireAuth, requireOrganization, requireSessionOrApiKey } from '../middleware/auth';
 import { SearchController } from '../controllers/searchController';
 
 const router: Router = express.Router();
 const searchController = new SearchController();
 
-// POST /search - Perform a search request
-router.post('/', requireAuth, requireOrganization, async (req: express.Request, res: express.Response) => {
+// POST /search - Perform a search request (API key or dashboard session)
+router.post('/', requireSessionOrApiKey, async (req: express.Request, res: express.Response) => {
   await searchController.search(req, res);
 });
 
+// POST /quote - Price a search without running it (nothing is charged)
+router.post('/quote', requireSessionOrApiKey, async (req: express.Request, res: express.Response) => {
+  await searchController.quote(req, res);
+});
+
+// POST /stream - Stream results over Server-Sent Events as each engine answers
+router.post('/stream', requireSessionOrApiKey, async (req: express.Request, res: express.Response) => {
+  await searchController.searchStream(req, res);
+});
+
+// GET /autocomplete - Query suggestions (API key or dashboard session)
+router.get('/autocomplete', requireSessionOrApiKey, async (req: express.Request, res: express.Response) => {
+  await searchController.autocomplete(req, res);
+});
+
+// POST /batch - Run many searches in one call (API key or dashboard session)
+router.post('/batch', requireSessionOrApiKey, async (req: express.Request, res: express.Response) => {
+  await searchController.searchBatch(req, res);
+});
+
+// POST /jobs - Submit an asynchronous search or batch (API key or dashboard session)
+router.post('/jobs', requireSessionOrApiKey, async (req: express.Request, res: express.Response) => {
+  await searchController.createJob(req, res);
+});
+
+// GET /jobs - List recent asynchronous jobs
+router.get('/jobs', requireSessionOrApiKey, async (req: express.Request, res: express.Response) => {
+  await searchController.listJobs(req, res);
+});
+
+// GET /jobs/:id - Poll an asynchronous job for status and results
+router.get('/jobs/:id', requireSessionOrApiKey, async (req: express.Request, res: express.Response) => {
+  await searchController.getJob(req, res);
+});
+
 // GET /engines - Get list of supported search engines
 router.get('/engines', requireAuth, requireOrganization, async (req: express.Request, res: express.Response) => {
   await searchController.getEngines(req, res);
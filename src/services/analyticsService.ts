@@ -193,7 +193,7 @@ export class AnalyticsService {
       requests: count(),
       successful: sql<number>`COUNT(CASE WHEN ${serpSearchResults.status} = 'success' THEN 1 END)`,
       failed: sql<number>`COUNT(CASE WHEN ${serpSearchResults.status} = 'error' THEN 1 END)`,
-  credits_used: sql<number>`COUNT(CASE WHEN ${serpSearchResults.status} = 'success' THEN 1 END)`, // Credits counted only for successful requests
+  credits_used: sql<number>`SUM(CASE WHEN ${serpSearchResults.status} = 'success' THEN COALESCE(${serpSearchResults.creditsCharged}, 1) ELSE 0 END)`, // Logged charge; older rows count as 1 credit
   avg_response_time: sql<number>`AVG(${serpSearchResults.responseTime})`
     })
     .from(serpSearchResults)
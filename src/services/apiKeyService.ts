@@ -1,8 +1,21 @@
 import crypto from 'crypto';
 import { db } from '../db/index';
-import { apiKeys, workspaceCredits } from '../db/schema';
+import { apiKeys, workspaceCredits, organization } from '../db/schema';
 import { eq, and, count, desc } from 'drizzle-orm';
 
+// Resolved API key attached to requests on the public API
+export interface ApiKeyContext {
+  id: number;
+  name: string;
+  organizationId: string;
+  organizationName: string;
+  requestLimit: number | null;
+}
+
+// In-process cache of key lookups, keyed by key hash
+const API_KEY_CACHE_TTL_MS = (parseInt(process.env.API_KEY_CACHE_TTL || '', 10) || 60) * 1000;
+const apiKeyCache = new Map<string, { key: ApiKeyContext; expiresAt: number }>();
+
 export class ApiKeyService {
   // Generate a secure API key
   generateApiKey(): string {
@@ -34,6 +47,45 @@ export class ApiKeyService {
     return keyRecord[0];
   }
 
+  // Resolve a raw API key to its active key record and owning organization
+  async resolveApiKey(rawKey: string): Promise<ApiKeyContext | null> {
+    const keyHash = this.hashApiKey(rawKey);
+    const now = Date.now();
+
+    const cached = apiKeyCache.get(keyHash);
+    if (cached && cached.expiresAt > now) {
+      return cached.key;
+    }
+    apiKeyCache.delete(keyHash);
+
+    const [record] = await db.select({
+      id: apiKeys.id,
+      name: apiKeys.name,
+      organizationId: apiKeys.organizationId,
+      organizationName: organization.name,
+      requestLimit: apiKeys.requestLimit,
+    })
+      .from(apiKeys)
+      .innerJoin(organization, eq(apiKeys.organizationId, organization.id))
+      .where(and(
+        eq(apiKeys.keyHash, keyHash),
+        eq(apiKeys.isActive, true)
+      ))
+      .limit(1);
+
+    if (!record) {
+      return null;
+    }
+
+    apiKeyCache.set(keyHash, { key: record, expiresAt: now + API_KEY_CACHE_TTL_MS });
+    return record;
+  }
+
+  // Drop a key from the lookup cache (call after updating, deleting or regenerating it)
+  invalidateCachedKey(keyHash: string) {
+    apiKeyCache.delete(keyHash);
+  }
+
   // Check if organization can create more API keys
   async checkApiKeyLimit(organizationId: string) {
     const existingKeys = await db.select({ count: count() })
@@ -142,6 +194,8 @@ export class ApiKeyService {
         updatedAt: apiKeys.updatedAt,
       });
 
+    this.invalidateCachedKey(existingKey[0].keyHash);
+
     return updatedKey[0];
   }
 
@@ -162,6 +216,7 @@ export class ApiKeyService {
 
     // Delete the key (this will cascade to related logs due to foreign key)
     await db.delete(apiKeys).where(eq(apiKeys.id, keyId));
+    this.invalidateCachedKey(existingKey[0].keyHash);
   }
 
   // Regenerate an API key
@@ -198,6 +253,8 @@ export class ApiKeyService {
         updatedAt: apiKeys.updatedAt,
       });
 
+    this.invalidateCachedKey(existingKey[0].keyHash);
+
     return {
       apiKey: newApiKey,
       details: updatedKey[0]
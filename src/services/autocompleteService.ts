@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import { db } from '../db/index';
+import { workspaceCredits } from '../db/schema';
+import { and, eq, or, sql } from 'drizzle-orm';
+import { InstanceService } from './instanceService';
+import { SearchService, SearchContext, SearchError } from './searchService';
+import { CreditService } from './creditService';
+
+// Suggestion backends supported by SearXNG's autocompleter
+export const AUTOCOMPLETE_BACKENDS = [
+  'duckduckgo',
+  'google',
+  'brave',
+  'qwant',
+  'startpage',
+  'wikipedia',
+  'dbpedia',
+  'mwmbl',
+  'seznam',
+  'swisscows',
+  'yandex',
+  'baidu',
+];
+
+const AUTOCOMPLETE_DEFAULT_BACKEND = process.env.AUTOCOMPLETE_DEFAULT_BACKEND || 'duckduckgo';
+// One credit is charged for every N autocomplete calls
+const AUTOCOMPLETE_CALLS_PER_CREDIT = parseInt(process.env.AUTOCOMPLETE_CALLS_PER_CREDIT || '', 10) || 10;
+// Suggestions barely change, so they are cached for a long time (seconds)
+const AUTOCOMPLETE_CACHE_TTL = parseInt(process.env.AUTOCOMPLETE_CACHE_TTL || '', 10) || 24 * 60 * 60;
+const AUTOCOMPLETE_CACHE_MAX_ENTRIES = 10000;
+const AUTOCOMPLETE_TIMEOUT_MS = 5000;
+const AUTOCOMPLETE_MAX_ATTEMPTS = 2;
+const MAX_PREFIX_LENGTH = 200;
+const MAX_SUGGESTIONS = 10;
+
+export interface AutocompleteResponse {
+  query: string;
+  suggestions: string[];
+  backend: string;
+  cached: boolean;
+  credits: {
+    cost_per_call: number;
+    charged: number;
+    balance: number;
+  };
+}
+
+// Suggestions keyed by backend, language and normalized prefix; Map order doubles as LRU order
+const suggestionCache = new Map<string, { suggestions: string[]; expiresAt: number }>();
+
+export class AutocompleteService {
+  private instanceService = new InstanceService();
+  private searchService = new SearchService();
+  private creditService = new CreditService();
+
+  private getCached(key: string): string[] | null {
+    const entry = suggestionCache.get(key);
+    if (!entry) return null;
+
+    if (entry.expiresAt <= Date.now()) {
+      suggestionCache.delete(key);
+      return null;
+    }
+
+    // Move to the back so frequently used prefixes survive eviction
+    suggestionCache.delete(key);
+    suggestionCache.set(key, entry);
+    return entry.suggestions;
+  }
+
+  private setCached(key: string, suggestions: string[]) {
+    suggestionCache.set(key, { suggestions, expiresAt: Date.now() + AUTOCOMPLETE_CACHE_TTL * 1000 });
+
+    while (suggestionCache.size > AUTOCOMPLETE_CACHE_MAX_ENTRIES) {
+      suggestionCache.delete(suggestionCache.keys().next().value!);
+    }
+  }
+
+  // SearXNG answers with the OpenSearch shape [query, [suggestions]]; older versions send a bare list
+  private normalize(data: unknown): string[] {
+    let list: unknown[] = [];
+    if (Array.isArray(data)) {
+      list = data.length === 2 && Array.isArray(data[1]) ? data[1] : data;
+    }
+
+    const seen = new Set<string>();
+    return list
+      .filter((item): item is string => typeof item === 'string')
+      .map(item => item.trim())
+      .filter(item => {
+        const key = item.toLowerCase();
+        if (!item || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  // Ask SearXNG instances in priority order, skipping open circuits and saturated instances
+  private async fetchSuggestions(q: string, backend: string, language?: string): Promise<string[]> {
+    const candidates = await this.instanceService.getCandidateInstances();
+    const params = new URLSearchParams({ q, autocomplete: backend });
+    const cookies = [`autocomplete=${backend}`];
+    if (language) cookies.push(`language=${encodeURIComponent(language)}`);
+
+    let attempts = 0;
+    let lastError = 'No SearXNG instance available';
+
+    for (const candidate of candidates) {
+      if (attempts >= AUTOCOMPLETE_MAX_ATTEMPTS) break;
+      if (this.instanceService.isCircuitOpen(candidate.url)) continue;
+      if (!this.instanceService.tryAcquire(candidate)) continue;
+
+      attempts++;
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), AUTOCOMPLETE_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(`${candidate.url}/autocompleter?${params}`, {
+          headers: {
+            'User-Agent': 'SERP-API/1.0 (+https://yourdomain.com)',
+            'Accept': 'application/json',
+            'X-Requested-With': 'XMLHttpRequest',
+            'Cookie': cookies.join('; '),
+          },
+          signal: controller.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`SearXNG autocompleter error: ${response.status} ${response.statusText}`);
+        }
+
+        const suggestions = this.normalize(await response.json());
+        this.instanceService.recordSuccess(candidate.url);
+        return suggestions;
+      } catch (error) {
+        lastError = error instanceof Error ? error.message : 'Unknown error';
+        this.instanceService.recordFailure(candidate.url);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+
+    throw new SearchError('Failed to fetch suggestions', 502, { message: lastError });
+  }
+
+  /**
+   * Count one autocomplete call and charge a whole credit every AUTOCOMPLETE_CALLS_PER_CREDIT calls.
+   * The pending-call counter and the ledger charge change in one transaction, and the call that
+   * completes a credit is only counted when that credit is available (not held by in-flight requests),
+   * so concurrent calls can't overdraw. Throws a 402 when it isn't.
+   */
+  private async recordCall(organizationId: string): Promise<{ charged: number; balance: number }> {
+    const recorded = await db.transaction(async tx => {
+      const [updated] = await tx.update(workspaceCredits)
+        .set({
+          autocompleteCalls: sql`(${workspaceCredits.autocompleteCalls} + 1) % ${AUTOCOMPLETE_CALLS_PER_CREDIT}`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(workspaceCredits.organizationId, organizationId),
+          or(
+            sql`(${workspaceCredits.autocompleteCalls} + 1) % ${AUTOCOMPLETE_CALLS_PER_CREDIT} <> 0`,
+            sql`${workspaceCredits.balance} - ${workspaceCredits.reserved} >= 1`
+          )
+        ))
+        .returning({ balance: workspaceCredits.balance, autocompleteCalls: workspaceCredits.autocompleteCalls });
+
+      if (!updated) return null;
+      if (updated.autocompleteCalls !== 0) {
+        return { charged: 0, balance: updated.balance || 0 };
+      }
+
+      const balance = await this.creditService.applyEntry(tx, {
+        organizationId,
+        amount: -1,
+        type: 'charge',
+        reason: `${AUTOCOMPLETE_CALLS_PER_CREDIT} autocomplete calls`,
+        // Each charged block of calls gets its own id
+        referenceType: 'autocomplete',
+        referenceId: crypto.randomUUID(),
+      });
+      return { charged: 1, balance };
+    });
+
+    if (!recorded) {
+      const [credits] = await db.select()
+        .from(workspaceCredits)
+        .where(eq(workspaceCredits.organizationId, organizationId))
+        .limit(1);
+      const balance = credits?.balance || 0;
+
+      throw new SearchError('Insufficient credits. Please purchase more credits to continue.', 402, {
+        balance,
+        available: Math.max(0, balance - (credits?.reserved || 0)),
+        required: 1,
+      });
+    }
+
+    if (recorded.charged > 0) {
+      this.creditService.notifyBalance(organizationId, recorded.balance);
+    }
+    return recorded;
+  }
+
+  async autocomplete(
+    options: { q: string; backend?: string; language?: string },
+    context: SearchContext
+  ): Promise<AutocompleteResponse> {
+    const { organizationId } = context;
+    const q = typeof options.q === 'string' ? options.q.trim() : '';
+    if (!q) {
+      throw new SearchError('Query parameter "q" is required', 400);
+    }
+    if (q.length > MAX_PREFIX_LENGTH) {
+      throw new SearchError(`Query too long (max ${MAX_PREFIX_LENGTH} characters)`, 400);
+    }
+
+    const backend = (options.backend || AUTOCOMPLETE_DEFAULT_BACKEND).toLowerCase();
+    if (!AUTOCOMPLETE_BACKENDS.includes(backend)) {
+      throw new SearchError('Invalid autocomplete backend', 400, { supported_backends: AUTOCOMPLETE_BACKENDS });
+    }
+
+    const credits = await this.searchService.checkCreditBalance(organizationId);
+
+    const cacheKey = `${backend}:${options.language || ''}:${q.toLowerCase().replace(/\s+/g, ' ')}`;
+    let suggestions = this.getCached(cacheKey);
+    const cached = suggestions !== null;
+
+    if (!suggestions) {
+      suggestions = await this.fetchSuggestions(q, backend, options.language);
+      this.setCached(cacheKey, suggestions);
+    }
+
+    let usage = { charged: 0, balance: credits.balance || 0 };
+    try {
+      usage = await this.recordCall(organizationId);
+    } catch (creditError) {
+      if (creditError instanceof SearchError) throw creditError;
+      console.error('❌ Failed to record autocomplete usage:', creditError);
+    }
+
+    if (context.apiKeyId) {
+      await this.searchService.recordApiKeyUsage(context.apiKeyId);
+    }
+
+    return {
+      query: q,
+      suggestions,
+      backend,
+      cached,
+      credits: {
+        cost_per_call: 1 / AUTOCOMPLETE_CALLS_PER_CREDIT,
+        charged: usage.charged,
+        balance: usage.balance,
+      },
+    };
+  }
+}
@@ -0,0 +1,421 @@
+import { db } from '../db/index';
+import { billingSettings } from '../db/schema';
+import { and, eq, isNull, lt, or } from 'drizzle-orm';
+import StripeService from './stripe';
+import { CreditService } from './creditService';
+import { validateWebhookUrl } from './webhookUrlGuard';
+import { signWebhookPayload } from './webhookSigner';
+
+// Secret used to sign balance alert webhooks; webhook alerts can't be configured without one
+const CREDIT_ALERT_WEBHOOK_SECRET = process.env.CREDIT_ALERT_WEBHOOK_SECRET || '';
+// Consecutive auto-recharge failures before auto-recharge is switched off
+const AUTO_RECHARGE_MAX_FAILURES = parseInt(process.env.AUTO_RECHARGE_MAX_FAILURES || '', 10) || 3;
+// How long to wait after a failed (or interrupted) auto-recharge before trying again
+const AUTO_RECHARGE_RETRY_MS = 60 * 60 * 1000;
+// Purchase limits enforced by StripeService.calculateCredits
+const MIN_RECHARGE_USD = 5;
+const MAX_RECHARGE_USD = 2000;
+
+const ALERT_TIMEOUT_MS = 10000;
+const CAP_REACHED_ERROR = 'Monthly auto-recharge cap reached';
+
+export type BillingSettingsRow = typeof billingSettings.$inferSelect;
+type BillingSettingsInput = Partial<Omit<BillingSettingsRow, 'id' | 'organizationId' | 'createdAt' | 'updatedAt'>>;
+
+export type BalanceAlertEvent =
+  | 'credits.low_balance'
+  | 'credits.auto_recharge_succeeded'
+  | 'credits.auto_recharge_failed'
+  | 'credits.auto_recharge_cap_reached';
+
+let started = false;
+
+export class BalanceMonitorService {
+  private creditService = new CreditService();
+
+  // Validate a settings update against the current settings; enabling auto-recharge needs a complete setup
+  async parseSettings(body: any, current: BillingSettingsRow | null): Promise<{ values?: BillingSettingsInput; error?: string }> {
+    const values: BillingSettingsInput = {};
+    body = body || {};
+
+    const parseCount = (field: string): number | null | undefined | string => {
+      const value = body[field];
+      if (value === undefined) return undefined;
+      if (value === null) return null;
+      return Number.isInteger(value) && value >= 0 ? value : `${field} must be a non-negative integer or null`;
+    };
+
+    const lowBalanceThreshold = parseCount('low_balance_threshold');
+    if (typeof lowBalanceThreshold === 'string') return { error: lowBalanceThreshold };
+    if (lowBalanceThreshold !== undefined) {
+      values.lowBalanceThreshold = lowBalanceThreshold;
+      values.lowBalanceAlertedAt = null;
+    }
+
+    // Alerts are delivered by webhook only; email alerts are not supported
+    if (body.alert_email !== undefined && body.alert_email !== null) {
+      return { error: 'Email alerts are not available on this server; use alert_webhook_url' };
+    }
+
+    if (body.alert_webhook_url !== undefined) {
+      if (body.alert_webhook_url !== null) {
+        if (!CREDIT_ALERT_WEBHOOK_SECRET) {
+          return { error: 'Webhook alerts are not enabled on this server' };
+        }
+        const { url, error } = await validateWebhookUrl(body.alert_webhook_url, 'alert_webhook_url');
+        if (error) return { error };
+        values.alertWebhookUrl = url!;
+      } else {
+        values.alertWebhookUrl = null;
+      }
+    }
+
+    const autoRechargeThreshold = parseCount('auto_recharge_threshold');
+    if (typeof autoRechargeThreshold === 'string') return { error: autoRechargeThreshold };
+    if (autoRechargeThreshold !== undefined) values.autoRechargeThreshold = autoRechargeThreshold;
+
+    for (const [field, key] of [
+      ['auto_recharge_amount_usd', 'autoRechargeAmountUsd'],
+      ['auto_recharge_monthly_cap_usd', 'autoRechargeMonthlyCapUsd'],
+    ] as const) {
+      const value = body[field];
+      if (value === undefined) continue;
+      if (value !== null && (!Number.isInteger(value) || value < MIN_RECHARGE_USD)) {
+        return { error: `${field} must be a whole number of dollars, at least $${MIN_RECHARGE_USD}` };
+      }
+      values[key] = value;
+    }
+    if (values.autoRechargeAmountUsd && values.autoRechargeAmountUsd > MAX_RECHARGE_USD) {
+      return { error: `auto_recharge_amount_usd must be at most $${MAX_RECHARGE_USD}` };
+    }
+
+    if (body.auto_recharge_enabled !== undefined) {
+      if (typeof body.auto_recharge_enabled !== 'boolean') {
+        return { error: 'auto_recharge_enabled must be a boolean' };
+      }
+      values.autoRechargeEnabled = body.auto_recharge_enabled;
+
+      // (Re-)enabling starts with a clean failure record
+      if (body.auto_recharge_enabled) {
+        values.autoRechargeFailures = 0;
+        values.autoRechargeLastError = null;
+        values.autoRechargeAttemptedAt = null;
+      }
+    }
+
+    const merged = { ...current, ...values };
+    if (merged.autoRechargeEnabled) {
+      if (!merged.stripePaymentMethodId) {
+        return { error: 'Save a payment method before enabling auto-recharge' };
+      }
+      if (merged.autoRechargeThreshold == null || !merged.autoRechargeAmountUsd || !merged.autoRechargeMonthlyCapUsd) {
+        return { error: 'auto_recharge_threshold, auto_recharge_amount_usd and auto_recharge_monthly_cap_usd are required for auto-recharge' };
+      }
+      if (merged.autoRechargeMonthlyCapUsd < merged.autoRechargeAmountUsd) {
+        return { error: 'auto_recharge_monthly_cap_usd must be at least auto_recharge_amount_usd' };
+      }
+    }
+
+    return { values };
+  }
+
+  async getSettings(organizationId: string): Promise<BillingSettingsRow | null> {
+    const [settings] = await db.select()
+      .from(billingSettings)
+      .where(eq(billingSettings.organizationId, organizationId))
+      .limit(1);
+
+    return settings || null;
+  }
+
+  // Create or update an organization's settings
+  async saveSettings(organizationId: string, values: BillingSettingsInput): Promise<BillingSettingsRow> {
+    const [settings] = await db.insert(billingSettings)
+      .values({ organizationId, ...values })
+      .onConflictDoUpdate({
+        target: billingSettings.organizationId,
+        set: { ...values, updatedAt: new Date() },
+      })
+      .returning();
+
+    return settings;
+  }
+
+  // Stripe customer the organization's payment method is saved on, created on first use
+  async ensureCustomer(organizationId: string): Promise<string> {
+    const settings = await this.getSettings(organizationId);
+    if (settings?.stripeCustomerId) return settings.stripeCustomerId;
+
+    const customerId = await StripeService.createCustomer(organizationId);
+    await this.saveSettings(organizationId, { stripeCustomerId: customerId });
+    return customerId;
+  }
+
+  // Store the card from a completed Setup Intent (setup_intent.succeeded webhook)
+  async savePaymentMethod(organizationId: string, customerId: string, paymentMethodId: string) {
+    const previous = await this.getSettings(organizationId);
+
+    await this.saveSettings(organizationId, {
+      stripeCustomerId: customerId,
+      stripePaymentMethodId: paymentMethodId,
+      autoRechargeFailures: 0,
+      autoRechargeLastError: null,
+      autoRechargeAttemptedAt: null,
+    });
+
+    if (previous?.stripePaymentMethodId && previous.stripePaymentMethodId !== paymentMethodId) {
+      await StripeService.detachPaymentMethod(previous.stripePaymentMethodId)
+        .catch(error => console.error('Failed to detach replaced payment method:', error));
+    }
+  }
+
+  // Forget the saved card; auto-recharge can't run without it
+  async removePaymentMethod(organizationId: string) {
+    const settings = await this.getSettings(organizationId);
+    if (!settings?.stripePaymentMethodId) return false;
+
+    await this.saveSettings(organizationId, { stripePaymentMethodId: null, autoRechargeEnabled: false });
+    await StripeService.detachPaymentMethod(settings.stripePaymentMethodId)
+      .catch(error => console.error('Failed to detach payment method:', error));
+    return true;
+  }
+
+  // Settings as returned by the billing API
+  async formatSettings(organizationId: string, settings: BillingSettingsRow | null) {
+    const spentCents = settings?.autoRechargeEnabled
+      ? await StripeService.getAutoRechargeSpend(organizationId, this.getMonthStart())
+      : 0;
+
+    return {
+      low_balance_threshold: settings?.lowBalanceThreshold ?? null,
+      alert_webhook_url: settings?.alertWebhookUrl ?? null,
+      low_balance_alerted_at: settings?.lowBalanceAlertedAt ?? null,
+      payment_method_saved: !!settings?.stripePaymentMethodId,
+      auto_recharge_enabled: settings?.autoRechargeEnabled ?? false,
+      auto_recharge_threshold: settings?.autoRechargeThreshold ?? null,
+      auto_recharge_amount_usd: settings?.autoRechargeAmountUsd ?? null,
+      auto_recharge_monthly_cap_usd: settings?.autoRechargeMonthlyCapUsd ?? null,
+      auto_recharge_spent_this_month_usd: spentCents / 100,
+      auto_recharge_failures: settings?.autoRechargeFailures ?? 0,
+      auto_recharge_last_error: settings?.autoRechargeLastError ?? null,
+      auto_recharge_attempted_at: settings?.autoRechargeAttemptedAt ?? null,
+    };
+  }
+
+  /**
+   * React to a new balance: alert once when it drops below the organization's threshold (and re-arm
+   * once it's back above), and recharge the saved card when it drops below the auto-recharge threshold.
+   */
+  async check(organizationId: string, balance: number) {
+    const settings = await this.getSettings(organizationId);
+    if (!settings) return;
+
+    await this.checkLowBalance(settings, balance);
+
+    if (settings.autoRechargeEnabled && settings.autoRechargeThreshold !== null && balance < settings.autoRechargeThreshold) {
+      await this.autoRecharge(settings);
+    }
+  }
+
+  private async checkLowBalance(settings: BillingSettingsRow, balance: number) {
+    const threshold = settings.lowBalanceThreshold;
+    if (threshold === null) return;
+
+    if (balance >= threshold) {
+      if (settings.lowBalanceAlertedAt) {
+        await db.update(billingSettings)
+          .set({ lowBalanceAlertedAt: null })
+          .where(eq(billingSettings.id, settings.id));
+      }
+      return;
+    }
+
+    // Claim the alert so concurrent requests crossing the threshold send it once
+    const [claimed] = await db.update(billingSettings)
+      .set({ lowBalanceAlertedAt: new Date() })
+      .where(and(eq(billingSettings.id, settings.id), isNull(billingSettings.lowBalanceAlertedAt)))
+      .returning();
+
+    if (claimed) {
+      await this.notify(claimed, 'credits.low_balance', { balance, threshold });
+    }
+  }
+
+  /**
+   * Charge the saved card for the configured amount, within the monthly cap. Attempts are claimed
+   * through `autoRechargeAttemptedAt`, so only one runs at a time and a failed one isn't retried
+   * for AUTO_RECHARGE_RETRY_MS; after AUTO_RECHARGE_MAX_FAILURES failures in a row it's switched off.
+   * A payment that is still processing keeps the claim until it's credited (or fails), so a slow
+   * payment never starts another one.
+   */
+  private async autoRecharge(settings: BillingSettingsRow) {
+    const [claimed] = await db.update(billingSettings)
+      .set({ autoRechargeAttemptedAt: new Date() })
+      .where(and(
+        eq(billingSettings.id, settings.id),
+        eq(billingSettings.autoRechargeEnabled, true),
+        or(
+          isNull(billingSettings.autoRechargeAttemptedAt),
+          lt(billingSettings.autoRechargeAttemptedAt, new Date(Date.now() - AUTO_RECHARGE_RETRY_MS))
+        )
+      ))
+      .returning();
+
+    if (!claimed || !claimed.stripeCustomerId || !claimed.stripePaymentMethodId || !claimed.autoRechargeAmountUsd) {
+      return;
+    }
+
+    // Earlier payments that were still processing: credit the ones that cleared, wait for the rest
+    const pending = await StripeService.syncAutoRecharges(claimed.organizationId);
+    for (const payment of pending.credited) {
+      await this.completeAutoRecharge(claimed.organizationId, payment.paymentIntentId, payment.amountUsd, payment.credits);
+    }
+    if (pending.credited.length > 0 || pending.processing > 0) {
+      return;
+    }
+
+    const amountUsd = claimed.autoRechargeAmountUsd;
+    const capUsd = claimed.autoRechargeMonthlyCapUsd || 0;
+    const spentCents = await StripeService.getAutoRechargeSpend(claimed.organizationId, this.getMonthStart());
+
+    if (spentCents + amountUsd * 100 > capUsd * 100) {
+      await db.update(billingSettings)
+        .set({ autoRechargeLastError: CAP_REACHED_ERROR })
+        .where(eq(billingSettings.id, claimed.id));
+
+      if (claimed.autoRechargeLastError !== CAP_REACHED_ERROR) {
+        await this.notify(claimed, 'credits.auto_recharge_cap_reached', {
+          spent_this_month_usd: spentCents / 100,
+          monthly_cap_usd: capUsd,
+        });
+      }
+      return;
+    }
+
+    try {
+      const { paymentIntentId, credits, credited } = await StripeService.chargeSavedPaymentMethod(
+        claimed.organizationId,
+        amountUsd,
+        claimed.stripeCustomerId,
+        claimed.stripePaymentMethodId
+      );
+
+      if (credited) {
+        await this.completeAutoRecharge(claimed.organizationId, paymentIntentId, amountUsd, credits);
+      } else {
+        console.log(`🔋 Auto-recharge of $${amountUsd} for org ${claimed.organizationId} is processing (${paymentIntentId})`);
+      }
+    } catch (error) {
+      await this.failAutoRecharge(claimed.organizationId, amountUsd,
+        error instanceof Error ? error.message : 'Auto-recharge payment failed');
+    }
+  }
+
+  // Release the claim after an auto-recharge payment was credited (inline or by its webhook) and report it
+  async completeAutoRecharge(organizationId: string, paymentIntentId: string, amountUsd: number, credits: number) {
+    const [settings] = await db.update(billingSettings)
+      .set({ autoRechargeFailures: 0, autoRechargeLastError: null, autoRechargeAttemptedAt: null })
+      .where(eq(billingSettings.organizationId, organizationId))
+      .returning();
+
+    console.log(`🔋 Auto-recharged $${amountUsd} (${credits} credits) for org ${organizationId}`);
+    if (settings) {
+      await this.notify(settings, 'credits.auto_recharge_succeeded', {
+        amount_usd: amountUsd,
+        credits,
+        payment_intent_id: paymentIntentId,
+      });
+    }
+  }
+
+  // Count a failed auto-recharge payment, switching auto-recharge off after too many in a row
+  async failAutoRecharge(organizationId: string, amountUsd: number, message: string) {
+    const settings = await this.getSettings(organizationId);
+    if (!settings) return;
+
+    const failures = settings.autoRechargeFailures + 1;
+    const disabled = failures >= AUTO_RECHARGE_MAX_FAILURES;
+
+    await db.update(billingSettings)
+      .set({
+        autoRechargeFailures: failures,
+        autoRechargeLastError: message,
+        autoRechargeEnabled: !disabled,
+      })
+      .where(eq(billingSettings.id, settings.id));
+
+    console.warn(`Auto-recharge failed for org ${organizationId} (${failures} in a row): ${message}`);
+    await this.notify(settings, 'credits.auto_recharge_failed', {
+      amount_usd: amountUsd,
+      error: message,
+      failures,
+      auto_recharge_disabled: disabled,
+    });
+  }
+
+  // Send an alert to the configured webhook; delivery failures are logged, never thrown
+  private async notify(settings: BillingSettingsRow, event: BalanceAlertEvent, data: Record<string, unknown>) {
+    const body = JSON.stringify({
+      event,
+      organization_id: settings.organizationId,
+      timestamp: new Date().toISOString(),
+      data,
+    });
+
+    if (settings.alertWebhookUrl && CREDIT_ALERT_WEBHOOK_SECRET) {
+      await this.deliverWebhook(settings.alertWebhookUrl, event, body);
+    }
+  }
+
+  private async deliverWebhook(url: string, event: BalanceAlertEvent, body: string) {
+    // Re-checked on every delivery: the host may resolve somewhere else than when it was saved
+    const { error: urlError } = await validateWebhookUrl(url, 'alert_webhook_url');
+    if (urlError) {
+      console.warn(`Balance alert webhook ${event} refused: ${urlError}`);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), ALERT_TIMEOUT_MS);
+
+    try {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'SERP-API-Webhooks/1.0',
+          'X-Serp-Event': event,
+          'X-Serp-Signature': signWebhookPayload(CREDIT_ALERT_WEBHOOK_SECRET, body, timestamp),
+        },
+        body,
+        // Redirects aren't followed, so a public URL can't bounce the request to an internal one
+        redirect: 'manual',
+        signal: controller.signal,
+      });
+      if (!response.ok) {
+        console.warn(`Balance alert webhook ${event} returned HTTP ${response.status}`);
+      }
+    } catch (error) {
+      console.warn(`Balance alert webhook ${event} failed:`, error instanceof Error ? error.message : error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private getMonthStart(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  }
+
+  // Watch every committed balance change
+  start() {
+    if (started) return;
+    started = true;
+
+    this.creditService.onBalanceChange((organizationId, balance) => {
+      this.check(organizationId, balance)
+        .catch(error => console.error(`Balance check failed for org ${organizationId}:`, error));
+    });
+  }
+}
@@ -0,0 +1,339 @@
+import { db } from '../db/index';
+import { creditLedger, creditReservations, workspaceCredits } from '../db/schema';
+import { and, count, desc, eq, lt, ne, sql } from 'drizzle-orm';
+import { SearchError } from './errors';
+
+// How long a reservation may stay open before the sweeper hands the credits back
+const RESERVATION_TTL_MS = 15 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+// Called with an organization's balance after each committed change to it
+export type BalanceListener = (organizationId: string, balance: number) => void;
+const balanceListeners: BalanceListener[] = [];
+
+export type LedgerEntryType = 'grant' | 'purchase' | 'charge' | 'refund' | 'adjustment';
+
+// A signed change to an organization's credits
+export interface LedgerEntry {
+  organizationId: string;
+  amount: number;
+  type: LedgerEntryType;
+  reason: string;
+  // What the entry is for; every entry carries one so it can be traced
+  referenceType: string;
+  referenceId: string;
+  createdBy?: string;
+}
+
+// What a charge is for, recorded on its ledger entry
+export interface ChargeReference {
+  reason: string;
+  referenceType: string;
+  referenceId: string;
+}
+
+// Credits handed back on a charge, recorded as a separate refund entry
+export interface CreditRefund {
+  amount: number;
+  reason: string;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface CreditReservation {
+  id: string;
+  organizationId: string;
+  amount: number;
+  balance: number; // Balance when the reservation was taken
+}
+
+export class CreditService {
+  /**
+   * Append an entry to the ledger and apply it to the cached balance and totals, inside the
+   * caller's transaction. Returns the balance after the entry.
+   */
+  async applyEntry(tx: Transaction, entry: LedgerEntry): Promise<number> {
+    const totals: Record<string, unknown> = {};
+    if (entry.type === 'grant' || entry.type === 'purchase') {
+      totals.totalPurchased = sql`${workspaceCredits.totalPurchased} + ${entry.amount}`;
+      totals.lastPurchase = new Date();
+    } else if (entry.type === 'charge' || entry.type === 'refund') {
+      totals.totalUsed = sql`${workspaceCredits.totalUsed} - ${entry.amount}`;
+    }
+
+    let [updated] = await tx.update(workspaceCredits)
+      .set({
+        balance: sql`${workspaceCredits.balance} + ${entry.amount}`,
+        ...totals,
+        updatedAt: new Date(),
+      })
+      .where(eq(workspaceCredits.organizationId, entry.organizationId))
+      .returning({ balance: workspaceCredits.balance });
+
+    if (!updated) {
+      const credited = entry.type === 'grant' || entry.type === 'purchase';
+      [updated] = await tx.insert(workspaceCredits).values({
+        organizationId: entry.organizationId,
+        balance: entry.amount,
+        totalPurchased: credited ? entry.amount : 0,
+        totalUsed: entry.type === 'charge' ? -entry.amount : 0,
+        lastPurchase: credited ? new Date() : null,
+      }).returning({ balance: workspaceCredits.balance });
+    }
+
+    const balanceAfter = updated.balance || 0;
+    await tx.insert(creditLedger).values({ ...entry, balanceAfter });
+
+    return balanceAfter;
+  }
+
+  // Record a ledger entry in its own transaction
+  async record(entry: LedgerEntry): Promise<number> {
+    const balance = await db.transaction(tx => this.applyEntry(tx, entry));
+    this.notifyBalance(entry.organizationId, balance);
+    return balance;
+  }
+
+  // Subscribe to balance changes (low-balance alerts, auto-recharge)
+  onBalanceChange(listener: BalanceListener) {
+    balanceListeners.push(listener);
+  }
+
+  // Tell listeners about a committed balance change; call after the transaction that made it
+  notifyBalance(organizationId: string, balance: number) {
+    for (const listener of balanceListeners) {
+      try {
+        listener(organizationId, balance);
+      } catch (error) {
+        console.error('Balance listener failed:', error);
+      }
+    }
+  }
+
+  // Page through an organization's ledger, newest first
+  async listEntries(organizationId: string, limit: number, offset: number) {
+    const [entries, [total]] = await Promise.all([
+      db.select()
+        .from(creditLedger)
+        .where(eq(creditLedger.organizationId, organizationId))
+        .orderBy(desc(creditLedger.id))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(creditLedger)
+        .where(eq(creditLedger.organizationId, organizationId)),
+    ]);
+
+    return { entries, total: total?.count || 0 };
+  }
+
+  // Net credits charged against a reference (charges minus refunds), or null when nothing was recorded against it
+  async getChargedTotal(referenceType: string, referenceId: string): Promise<number | null> {
+    const [row] = await db.select({
+      entries: count(),
+      total: sql<number>`COALESCE(SUM(${creditLedger.amount}), 0)::int`,
+    })
+      .from(creditLedger)
+      .where(and(eq(creditLedger.referenceType, referenceType), eq(creditLedger.referenceId, referenceId)));
+
+    return row && row.entries > 0 ? -Number(row.total) : null;
+  }
+
+  /**
+   * Recompute balances from the ledger and report organizations whose cached balance disagrees.
+   * With `repair`, the cached balance is overwritten with the ledger sum.
+   */
+  async reconcile(repair: boolean = false) {
+    const ledgerBalance = sql<number>`COALESCE((
+      SELECT SUM(${creditLedger.amount}) FROM ${creditLedger}
+      WHERE ${creditLedger.organizationId} = ${workspaceCredits.organizationId}
+    ), 0)::int`;
+
+    const mismatches = await db.select({
+      organizationId: workspaceCredits.organizationId,
+      balance: workspaceCredits.balance,
+      ledgerBalance,
+    })
+      .from(workspaceCredits)
+      .where(ne(sql`COALESCE(${workspaceCredits.balance}, 0)`, ledgerBalance));
+
+    if (repair) {
+      for (const mismatch of mismatches) {
+        await db.update(workspaceCredits)
+          .set({ balance: ledgerBalance, updatedAt: new Date() })
+          .where(eq(workspaceCredits.organizationId, mismatch.organizationId));
+      }
+    }
+
+    return mismatches.map(mismatch => ({
+      organization_id: mismatch.organizationId,
+      cached_balance: mismatch.balance || 0,
+      ledger_balance: Number(mismatch.ledgerBalance),
+      difference: (mismatch.balance || 0) - Number(mismatch.ledgerBalance),
+    }));
+  }
+
+  // Current balance (including credits reserved by in-flight requests)
+  async getBalance(organizationId: string): Promise<number> {
+    const [credits] = await db.select({ balance: workspaceCredits.balance })
+      .from(workspaceCredits)
+      .where(eq(workspaceCredits.organizationId, organizationId))
+      .limit(1);
+
+    return credits?.balance || 0;
+  }
+
+  /**
+   * Hold `amount` credits before calling upstream. The balance check and the hold are a single
+   * conditional update, so concurrent requests can never reserve more than the organization has.
+   * Throws a 402 with the current balance when the credits aren't available.
+   */
+  async reserve(organizationId: string, amount: number, ttlMs: number = RESERVATION_TTL_MS): Promise<CreditReservation> {
+    const reservation = await db.transaction(async tx => {
+      const [held] = await tx.update(workspaceCredits)
+        .set({
+          reserved: sql`${workspaceCredits.reserved} + ${amount}`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(workspaceCredits.organizationId, organizationId),
+          sql`${workspaceCredits.balance} > 0`,
+          sql`${workspaceCredits.balance} - ${workspaceCredits.reserved} >= ${amount}`
+        ))
+        .returning({ balance: workspaceCredits.balance });
+
+      if (!held) return null;
+
+      const [row] = await tx.insert(creditReservations).values({
+        organizationId,
+        amount,
+        expiresAt: new Date(Date.now() + ttlMs),
+      }).returning({ id: creditReservations.id });
+
+      return { id: row.id, organizationId, amount, balance: held.balance || 0 };
+    });
+
+    if (!reservation) {
+      const [credits] = await db.select()
+        .from(workspaceCredits)
+        .where(eq(workspaceCredits.organizationId, organizationId))
+        .limit(1);
+      const balance = credits?.balance || 0;
+
+      throw new SearchError('Insufficient credits. Please purchase more credits to continue.', 402, {
+        balance,
+        available: Math.max(0, balance - (credits?.reserved || 0)),
+        required: amount,
+      });
+    }
+
+    return reservation;
+  }
+
+  /**
+   * Close a reservation, charging `credits` (never more than was reserved) as a ledger entry and
+   * returning the rest. A `refund` is recorded as its own entry against the same reference, so the
+   * ledger shows both the price and what was handed back. Settling twice, or after the sweeper
+   * expired the reservation, releases nothing a second time. Returns the new balance.
+   */
+  async settle(
+    reservation: CreditReservation,
+    credits: number,
+    reference?: ChargeReference,
+    refund?: CreditRefund | null
+  ): Promise<number> {
+    const charge = Math.min(Math.max(credits, 0), reservation.amount);
+    const refunded = refund ? Math.min(Math.max(refund.amount, 0), charge) : 0;
+
+    const balance = await db.transaction(async tx => {
+      const closed = await tx.delete(creditReservations)
+        .where(eq(creditReservations.id, reservation.id))
+        .returning({ id: creditReservations.id });
+      const held = closed.length > 0 ? reservation.amount : 0;
+
+      if (charge > 0) {
+        await this.applyEntry(tx, {
+          organizationId: reservation.organizationId,
+          amount: -charge,
+          type: 'charge',
+          reason: reference?.reason || 'Search charge',
+          referenceType: reference?.referenceType || 'reservation',
+          referenceId: reference?.referenceId || reservation.id,
+        });
+      }
+
+      if (refunded > 0) {
+        await this.applyEntry(tx, {
+          organizationId: reservation.organizationId,
+          amount: refunded,
+          type: 'refund',
+          reason: refund!.reason,
+          referenceType: reference?.referenceType || 'reservation',
+          referenceId: reference?.referenceId || reservation.id,
+        });
+      }
+
+      const [updated] = await tx.update(workspaceCredits)
+        .set({
+          reserved: sql`GREATEST(${workspaceCredits.reserved} - ${held}, 0)`,
+          updatedAt: new Date(),
+        })
+        .where(eq(workspaceCredits.organizationId, reservation.organizationId))
+        .returning({ balance: workspaceCredits.balance });
+
+      return updated?.balance || 0;
+    });
+
+    if (charge > refunded) {
+      this.notifyBalance(reservation.organizationId, balance);
+    }
+    return balance;
+  }
+
+  // Give a reservation back without charging anything
+  async release(reservation: CreditReservation): Promise<number> {
+    return this.settle(reservation, 0);
+  }
+
+  // Release reservations left behind by requests that never finished (e.g. a crashed process)
+  async sweepExpired() {
+    const released = await db.transaction(async tx => {
+      const expired = await tx.delete(creditReservations)
+        .where(lt(creditReservations.expiresAt, new Date()))
+        .returning({ organizationId: creditReservations.organizationId, amount: creditReservations.amount });
+
+      const byOrganization = new Map<string, number>();
+      expired.forEach(row => byOrganization.set(row.organizationId, (byOrganization.get(row.organizationId) || 0) + row.amount));
+
+      for (const [organizationId, amount] of byOrganization) {
+        await tx.update(workspaceCredits)
+          .set({ reserved: sql`GREATEST(${workspaceCredits.reserved} - ${amount}, 0)`, updatedAt: new Date() })
+          .where(eq(workspaceCredits.organizationId, organizationId));
+      }
+
+      return expired.length;
+    });
+
+    if (released > 0) {
+      console.log(`🧹 Released ${released} expired credit reservations`);
+    }
+  }
+
+  startSweeper() {
+    if (sweepTimer) return;
+
+    sweepTimer = setInterval(() => {
+      this.sweepExpired().catch(error => console.error('Credit reservation sweep failed:', error));
+    }, SWEEP_INTERVAL_MS);
+    sweepTimer.unref();
+  }
+
+  stopSweeper() {
+    if (sweepTimer) {
+      clearInterval(sweepTimer);
+      sweepTimer = null;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+import { db } from '../db/index';
+import { searchEngines } from '../db/schema';
+import { asc } from 'drizzle-orm';
+import { SearchType } from './verticalService';
+
+// How long the registry is served from memory before it is re-read (admin edits apply within this window)
+const ENGINE_REGISTRY_TTL_MS = 60 * 1000;
+
+export interface EngineRecord {
+  code: string; // SearXNG engine name
+  name: string;
+  enabled: boolean;
+  cost: number; // Credits per upstream page
+  verticals: SearchType[];
+  isDefault: boolean;
+}
+
+// Registry snapshot shared by every service instance in this process. The search_engines table
+// (seeded by its migration) is the only source; the snapshot is empty until the first successful load.
+let registry: EngineRecord[] = [];
+let loadedAt = 0;
+let loading: Promise<void> | null = null;
+
+export class EngineRegistryService {
+  // Re-read the registry from the database when the snapshot is stale
+  async load(force: boolean = false): Promise<void> {
+    if (!force && Date.now() - loadedAt < ENGINE_REGISTRY_TTL_MS) return;
+    if (loading) return loading;
+
+    loading = (async () => {
+      try {
+        const rows = await db.select().from(searchEngines).orderBy(asc(searchEngines.id));
+        registry = rows.map(row => ({
+          code: row.code,
+          name: row.name,
+          enabled: row.enabled,
+          cost: row.creditCost,
+          verticals: (row.verticals || []) as SearchType[],
+          isDefault: row.isDefault,
+        }));
+        loadedAt = Date.now();
+      } catch (error) {
+        // Keep serving the last known registry and retry on the next call
+        console.error('Error loading engine registry:', error);
+      } finally {
+        loading = null;
+      }
+    })();
+
+    return loading;
+  }
+
+  // Force the next load() to hit the database (called after admin edits)
+  invalidate() {
+    loadedAt = 0;
+  }
+
+  getEngine(code: string): EngineRecord | undefined {
+    return registry.find(entry => entry.code === code.toLowerCase());
+  }
+
+  // Enabled engines serving a search type
+  getEngines(type: SearchType): EngineRecord[] {
+    return registry.filter(entry => entry.enabled && entry.verticals.includes(type));
+  }
+
+  // Engines used when a request names none; falls back to the first enabled engine of the type
+  getDefaultEngines(type: SearchType): string[] {
+    const engines = this.getEngines(type);
+    const defaults = engines.filter(entry => entry.isDefault);
+    return (defaults.length > 0 ? defaults : engines.slice(0, 1)).map(entry => entry.code);
+  }
+
+  // Credits per upstream page for an engine; unknown engines cost 1
+  getCost(code: string): number {
+    return this.getEngine(code)?.cost ?? 1;
+  }
+}
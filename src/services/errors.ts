@@ -0,0 +1,14 @@
+/**
+ * Error raised by the search pipeline, carrying the HTTP status to respond with
+ */
+export class SearchError extends Error {
+  status: number;
+  details: Record<string, any>;
+
+  constructor(message: string, status: number = 500, details: Record<string, any> = {}) {
+    super(message);
+    this.name = 'SearchError';
+    this.status = status;
+    this.details = details;
+  }
+}
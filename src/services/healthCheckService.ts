@@ -0,0 +1,206 @@
+import { db } from '../db/index';
+import { serpConfiguration, serpInstanceHealthChecks } from '../db/schema';
+import { eq, desc, lt } from 'drizzle-orm';
+
+const HEALTH_CHECK_INTERVAL_MS = parseInt(process.env.HEALTH_CHECK_INTERVAL_MS || '', 10) || 5 * 60 * 1000;
+const HEALTH_CHECK_TIMEOUT_MS = parseInt(process.env.HEALTH_CHECK_TIMEOUT_MS || '', 10) || 10000;
+const HEALTH_CHECK_QUERY = process.env.HEALTH_CHECK_QUERY || 'weather';
+// Probes slower than this count as "slow" and keep an instance degraded
+const HEALTH_CHECK_SLOW_MS = parseInt(process.env.HEALTH_CHECK_SLOW_MS || '', 10) || 3000;
+
+// Hysteresis: consecutive failures to mark unhealthy, consecutive fast successes to mark healthy
+const DEMOTE_AFTER = 2;
+const PROMOTE_AFTER = 3;
+// Instances with this many failures in the history window are flapping and stay degraded
+const FLAP_FAILURES = 3;
+const HISTORY_WINDOW = 10;
+const HISTORY_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+let checkTimer: NodeJS.Timeout | null = null;
+
+export type ProbeOutcome = 'ok' | 'slow' | 'failed';
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy' | 'unknown';
+
+export interface ProbeResult {
+  outcome: ProbeOutcome;
+  responseTime: number;
+  resultsCount: number;
+  error?: string;
+  supportedEngines?: string[];
+}
+
+export class HealthCheckService {
+  // Run a canary query against an instance and read its enabled engines
+  async probe(instanceUrl: string): Promise<ProbeResult> {
+    const baseUrl = instanceUrl.replace(/\/+$/, '');
+    const params = new URLSearchParams({ q: HEALTH_CHECK_QUERY, format: 'json' });
+    const startTime = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+
+    let result: ProbeResult;
+    try {
+      const response = await fetch(`${baseUrl}/search?${params}`, {
+        headers: { 'Accept': 'application/json' },
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+
+      const data = await response.json() as { results?: unknown[] };
+      const responseTime = Date.now() - startTime;
+      const resultsCount = Array.isArray(data.results) ? data.results.length : 0;
+
+      if (resultsCount === 0) {
+        result = { outcome: 'failed', responseTime, resultsCount, error: 'Canary query returned no results' };
+      } else {
+        result = { outcome: responseTime > HEALTH_CHECK_SLOW_MS ? 'slow' : 'ok', responseTime, resultsCount };
+      }
+    } catch (error) {
+      result = {
+        outcome: 'failed',
+        responseTime: Date.now() - startTime,
+        resultsCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    result.supportedEngines = await this.fetchSupportedEngines(baseUrl);
+    return result;
+  }
+
+  // Read enabled engines from the instance's /config endpoint
+  private async fetchSupportedEngines(baseUrl: string): Promise<string[] | undefined> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), HEALTH_CHECK_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${baseUrl}/config`, {
+        headers: { 'Accept': 'application/json' },
+        signal: controller.signal,
+      });
+      if (!response.ok) return undefined;
+
+      const config = await response.json() as { engines?: Array<{ name: string; enabled?: boolean }> };
+      return (config.engines || [])
+        .filter(engine => engine.enabled !== false)
+        .map(engine => engine.name);
+    } catch {
+      return undefined;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Decide the new status from the latest probe and recent history (newest first).
+   * Instances drop quickly but have to prove themselves before being promoted back.
+   */
+  classify(previous: HealthStatus, outcomes: ProbeOutcome[]): HealthStatus {
+    let failStreak = 0;
+    while (failStreak < outcomes.length && outcomes[failStreak] === 'failed') failStreak++;
+
+    if (failStreak >= DEMOTE_AFTER) {
+      return 'unhealthy';
+    }
+
+    const latest = outcomes[0];
+    const failures = outcomes.filter(outcome => outcome === 'failed').length;
+
+    if (latest === 'ok' && failures < FLAP_FAILURES) {
+      const recent = outcomes.slice(0, PROMOTE_AFTER);
+      if (previous === 'healthy' || (recent.length === PROMOTE_AFTER && recent.every(outcome => outcome === 'ok'))) {
+        return 'healthy';
+      }
+    }
+
+    return 'degraded';
+  }
+
+  // Probe one configured instance and persist the outcome
+  async checkInstance(instanceId: number) {
+    const [instance] = await db.select()
+      .from(serpConfiguration)
+      .where(eq(serpConfiguration.id, instanceId))
+      .limit(1);
+
+    if (!instance) {
+      throw new Error('Instance not found');
+    }
+
+    const probe = await this.probe(instance.instanceUrl);
+
+    const history = await db.select({ outcome: serpInstanceHealthChecks.outcome })
+      .from(serpInstanceHealthChecks)
+      .where(eq(serpInstanceHealthChecks.instanceId, instanceId))
+      .orderBy(desc(serpInstanceHealthChecks.createdAt))
+      .limit(HISTORY_WINDOW - 1);
+
+    const outcomes = [probe.outcome, ...history.map(row => row.outcome as ProbeOutcome)];
+    const previous = (instance.healthStatus || 'unknown') as HealthStatus;
+    const healthStatus = this.classify(previous, outcomes);
+
+    await db.insert(serpInstanceHealthChecks).values({
+      instanceId,
+      outcome: probe.outcome,
+      healthStatus,
+      responseTime: probe.responseTime,
+      resultsCount: probe.resultsCount,
+      error: probe.error,
+    });
+
+    await db.update(serpConfiguration)
+      .set({
+        healthStatus,
+        responseTime: probe.responseTime,
+        lastHealthCheck: new Date(),
+        ...(probe.supportedEngines && { supportedEngines: probe.supportedEngines }),
+        updatedAt: new Date(),
+      })
+      .where(eq(serpConfiguration.id, instanceId));
+
+    if (healthStatus !== previous) {
+      console.log(`🩺 SearXNG instance ${instance.name} (${instance.instanceUrl}): ${previous} → ${healthStatus}`);
+    }
+
+    return { instanceId, previousStatus: previous, healthStatus, ...probe };
+  }
+
+  // Probe every active instance and prune old history
+  async checkAll() {
+    const instances = await db.select({ id: serpConfiguration.id })
+      .from(serpConfiguration)
+      .where(eq(serpConfiguration.isActive, true));
+
+    const results = await Promise.allSettled(instances.map(instance => this.checkInstance(instance.id)));
+    results.forEach(result => {
+      if (result.status === 'rejected') {
+        console.error('Health check error:', result.reason);
+      }
+    });
+
+    await db.delete(serpInstanceHealthChecks)
+      .where(lt(serpInstanceHealthChecks.createdAt, new Date(Date.now() - HISTORY_RETENTION_MS)));
+  }
+
+  // Start the periodic health check worker
+  start(intervalMs: number = HEALTH_CHECK_INTERVAL_MS) {
+    if (checkTimer) return;
+
+    const run = () => this.checkAll().catch(error => console.error('Health check run failed:', error));
+    run();
+    checkTimer = setInterval(run, intervalMs);
+    checkTimer.unref();
+  }
+
+  stop() {
+    if (checkTimer) {
+      clearInterval(checkTimer);
+      checkTimer = null;
+    }
+  }
+}
@@ -0,0 +1,173 @@
+import { db } from '../db/index';
+import { serpConfiguration } from '../db/schema';
+import { eq, desc } from 'drizzle-orm';
+
+// Default SearXNG instances (fallback list)
+export const DEFAULT_SEARXNG_INSTANCES = [
+  'https://searx.stream',
+  'https://search.rhscz.eu',
+  'https://searx.rhscz.eu',
+  'https://searx.tiekoetter.com',
+  'https://northboot.xyz',
+  'https://search.inetol.net',
+  'https://opnxng.com'
+];
+
+// Consecutive failures before an instance's circuit opens, and how long it stays open
+const CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.SEARXNG_CIRCUIT_THRESHOLD || '', 10) || 3;
+const CIRCUIT_COOLDOWN_MS = parseInt(process.env.SEARXNG_CIRCUIT_COOLDOWN_MS || '', 10) || 60000;
+
+// Outbound rate for instances without a configured maxRequestsPerMinute (env and fallback instances)
+const DEFAULT_REQUESTS_PER_MINUTE = parseInt(process.env.SEARXNG_DEFAULT_RPM || '', 10) || 30;
+
+// Order in which health states are tried
+const HEALTH_RANK: Record<string, number> = {
+  healthy: 0,
+  degraded: 1,
+  unknown: 2,
+  unhealthy: 3,
+};
+
+export interface SearxngInstance {
+  id?: number;
+  url: string;
+  priority: number;
+  maxRequestsPerMinute: number;
+  healthStatus: string;
+  source: 'database' | 'env' | 'default';
+}
+
+interface TokenBucket {
+  tokens: number;
+  capacity: number;
+  lastRefill: number;
+}
+
+export interface CircuitState {
+  consecutiveFailures: number;
+  openedUntil: number;
+}
+
+// Per-instance circuit breaker state, keyed by instance URL
+const circuits = new Map<string, CircuitState>();
+// Per-instance outbound token buckets, keyed by instance URL
+const buckets = new Map<string, TokenBucket>();
+
+export class InstanceService {
+  // Prioritized list of instances to try: configured rows first, then SEARXNG_URL, then the public fallbacks
+  async getCandidateInstances(): Promise<SearxngInstance[]> {
+    const candidates: SearxngInstance[] = [];
+
+    try {
+      const rows = await db.select()
+        .from(serpConfiguration)
+        .where(eq(serpConfiguration.isActive, true))
+        .orderBy(desc(serpConfiguration.priority));
+
+      rows
+        .map(row => ({
+          id: row.id,
+          url: row.instanceUrl.replace(/\/+$/, ''),
+          priority: row.priority ?? 1,
+          maxRequestsPerMinute: row.maxRequestsPerMinute || DEFAULT_REQUESTS_PER_MINUTE,
+          healthStatus: row.healthStatus || 'unknown',
+          source: 'database' as const,
+        }))
+        .sort((a, b) => (HEALTH_RANK[a.healthStatus] ?? 2) - (HEALTH_RANK[b.healthStatus] ?? 2) || b.priority - a.priority)
+        .forEach(instance => candidates.push(instance));
+    } catch (error) {
+      console.error('Error getting SearXNG instances:', error);
+    }
+
+    if (process.env.SEARXNG_URL) {
+      candidates.push({
+        url: process.env.SEARXNG_URL.replace(/\/+$/, ''),
+        priority: 0,
+        maxRequestsPerMinute: DEFAULT_REQUESTS_PER_MINUTE,
+        healthStatus: 'unknown',
+        source: 'env',
+      });
+    }
+
+    DEFAULT_SEARXNG_INSTANCES.forEach(url => {
+      candidates.push({
+        url,
+        priority: 0,
+        maxRequestsPerMinute: DEFAULT_REQUESTS_PER_MINUTE,
+        healthStatus: 'unknown',
+        source: 'default',
+      });
+    });
+
+    // Keep the first (highest priority) entry for each URL
+    const seen = new Set<string>();
+    return candidates.filter(instance => {
+      if (seen.has(instance.url)) return false;
+      seen.add(instance.url);
+      return true;
+    });
+  }
+
+  // Refill an instance's bucket for the time elapsed, honoring its current maxRequestsPerMinute
+  private refillBucket(instance: SearxngInstance): TokenBucket {
+    const now = Date.now();
+    const capacity = instance.maxRequestsPerMinute;
+    const bucket = buckets.get(instance.url) || { tokens: capacity, capacity, lastRefill: now };
+
+    bucket.capacity = capacity;
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.lastRefill) * capacity) / 60000);
+    bucket.lastRefill = now;
+    buckets.set(instance.url, bucket);
+
+    return bucket;
+  }
+
+  // Take one outbound request token for an instance; false when it is saturated
+  tryAcquire(instance: SearxngInstance): boolean {
+    const bucket = this.refillBucket(instance);
+    if (bucket.tokens < 1) {
+      return false;
+    }
+    bucket.tokens -= 1;
+    return true;
+  }
+
+  // Seconds until a saturated instance has a token again
+  getRetryAfterSeconds(instance: SearxngInstance): number {
+    const bucket = this.refillBucket(instance);
+    if (bucket.tokens >= 1) return 0;
+    return Math.ceil(((1 - bucket.tokens) * 60) / bucket.capacity);
+  }
+
+  // Whether requests to an instance are currently blocked by its circuit breaker.
+  // Once the cooldown has passed the circuit is half-open and one request is let through.
+  isCircuitOpen(url: string): boolean {
+    const state = circuits.get(url);
+    return !!state && state.openedUntil > Date.now();
+  }
+
+  recordSuccess(url: string) {
+    circuits.delete(url);
+  }
+
+  recordFailure(url: string) {
+    const state = circuits.get(url) || { consecutiveFailures: 0, openedUntil: 0 };
+    state.consecutiveFailures++;
+
+    if (state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD) {
+      state.openedUntil = Date.now() + CIRCUIT_COOLDOWN_MS;
+      console.warn(`⚡ Circuit opened for ${url} after ${state.consecutiveFailures} consecutive failures`);
+    }
+
+    circuits.set(url, state);
+  }
+
+  // Snapshot of circuit breaker state for every instance that has failed recently
+  getCircuitStates(): Record<string, CircuitState & { open: boolean }> {
+    const snapshot: Record<string, CircuitState & { open: boolean }> = {};
+    circuits.forEach((state, url) => {
+      snapshot[url] = { ...state, open: this.isCircuitOpen(url) };
+    });
+    return snapshot;
+  }
+}
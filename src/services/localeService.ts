@@ -0,0 +1,231 @@
+import { SearchError } from './errors';
+
+// ISO 3166-1 alpha-2 country codes
+const COUNTRY_CODES = new Set((
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ ' +
+  'CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR ' +
+  'GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP ' +
+  'KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT ' +
+  'MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+  'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG ' +
+  'UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' '));
+
+// ISO 639-1 language codes
+const LANGUAGE_CODES = new Set((
+  'aa ab ae af ak am an ar as av ay az ba be bg bh bi bm bn bo br bs ca ce ch co cr cs cu cv cy da de dv dz ee el en eo ' +
+  'es et eu fa ff fi fj fo fr fy ga gd gl gn gu gv ha he hi ho hr ht hu hy hz ia id ie ig ii ik io is it iu ja jv ka kg ' +
+  'ki kj kk kl km kn ko kr ks ku kv kw ky la lb lg li ln lo lt lu lv mg mh mi mk ml mn mr ms mt my na nb nd ne ng nl nn ' +
+  'no nr nv ny oc oj om or os pa pi pl ps pt qu rm rn ro ru rw sa sc sd se sg si sk sl sm sn so sq sr ss st su sv sw ta ' +
+  'te tg th ti tk tl tn to tr ts tt tw ty ug uk ur uz ve vi vo wa wo xh yi yo za zh zu'
+).split(' '));
+
+// SearXNG language values that mean "no particular language"
+const ANY_LANGUAGE = ['all', 'auto'];
+
+// Language assumed when only a country is given
+const COUNTRY_LANGUAGES: Record<string, string> = {
+  AR: 'es', AT: 'de', BE: 'nl', BR: 'pt', CH: 'de', CL: 'es', CN: 'zh', CO: 'es', CZ: 'cs', DE: 'de', DK: 'da',
+  EG: 'ar', ES: 'es', FI: 'fi', FR: 'fr', GR: 'el', HK: 'zh', HU: 'hu', ID: 'id', IL: 'he', IT: 'it', JP: 'ja',
+  KR: 'ko', MX: 'es', NL: 'nl', NO: 'nb', PE: 'es', PL: 'pl', PT: 'pt', RO: 'ro', RU: 'ru', SA: 'ar', SE: 'sv',
+  SK: 'sk', TH: 'th', TR: 'tr', TW: 'zh', UA: 'uk', VN: 'vi',
+};
+
+// Engines whose SearXNG implementation has no region support at all
+const LANGUAGE_ONLY_ENGINES = ['yep', 'searx'];
+
+// Engines that only serve a fixed set of language-country markets
+const ENGINE_LOCALES: Record<string, string[]> = {
+  bing: [
+    'ar-SA', 'da-DK', 'de-AT', 'de-CH', 'de-DE', 'en-AU', 'en-CA', 'en-GB', 'en-ID', 'en-IE', 'en-IN', 'en-MY',
+    'en-NZ', 'en-PH', 'en-SG', 'en-US', 'en-ZA', 'es-AR', 'es-CL', 'es-ES', 'es-MX', 'es-US', 'fi-FI', 'fr-BE',
+    'fr-CA', 'fr-CH', 'fr-FR', 'it-IT', 'ja-JP', 'ko-KR', 'nb-NO', 'nl-BE', 'nl-NL', 'pl-PL', 'pt-BR', 'pt-PT',
+    'ru-RU', 'sv-SE', 'tr-TR', 'zh-CN', 'zh-HK', 'zh-TW',
+  ],
+  qwant: [
+    'bg-BG', 'ca-ES', 'cs-CZ', 'da-DK', 'de-AT', 'de-CH', 'de-DE', 'el-GR', 'en-AU', 'en-CA', 'en-GB', 'en-IE',
+    'en-MY', 'en-NZ', 'en-US', 'es-AR', 'es-CL', 'es-ES', 'es-MX', 'et-EE', 'fi-FI', 'fr-BE', 'fr-CA', 'fr-CH',
+    'fr-FR', 'hu-HU', 'it-CH', 'it-IT', 'ja-JP', 'ko-KR', 'nb-NO', 'nl-BE', 'nl-NL', 'pl-PL', 'pt-BR', 'pt-PT',
+    'ro-RO', 'sv-SE', 'th-TH', 'zh-CN', 'zh-HK', 'zh-TW',
+  ],
+};
+
+// Locale inputs accepted by the pipeline; the legacy engine-specific fields are folded into language/country
+export interface LocaleInput {
+  language?: string;
+  country?: string;
+  location?: string;
+  hl?: string;
+  lr?: string;
+  cr?: string;
+  mkt?: string;
+  region?: string;
+  ui_lang?: string;
+}
+
+export interface Locale {
+  language?: string;
+  country?: string;
+}
+
+// English country names ("Germany", "united kingdom") mapped to codes, built on first use
+let countryNames: Map<string, string> | null = null;
+
+function getCountryNames(): Map<string, string> {
+  if (!countryNames) {
+    countryNames = new Map();
+    const displayNames = new Intl.DisplayNames(['en'], { type: 'region' });
+    COUNTRY_CODES.forEach(code => {
+      const name = displayNames.of(code);
+      if (name && name !== code) countryNames!.set(name.toLowerCase(), code);
+    });
+  }
+  return countryNames;
+}
+
+// "google images" and "brave.images" share the locale rules of their web engine
+function baseEngine(engine: string): string {
+  return engine.split(/[ .]/)[0];
+}
+
+export class LocaleService {
+  // Split "de", "de-DE" or "de_DE" into its parts
+  private splitTag(value: string): { language: string; country?: string } {
+    const [language, country] = value.trim().replace('_', '-').split('-');
+    return { language: language.toLowerCase(), country: country?.toUpperCase() };
+  }
+
+  // Translate the engine-specific parameters clients used to send into a language and country
+  private fromLegacy(input: LocaleInput): Locale {
+    const locale: Locale = {};
+    const apply = (language?: string, country?: string) => {
+      if (language && !locale.language) locale.language = language;
+      if (country && !locale.country) locale.country = country;
+    };
+
+    if (input.mkt) {
+      const { language, country } = this.splitTag(input.mkt);
+      apply(language, country);
+    }
+    if (input.ui_lang) {
+      const { language, country } = this.splitTag(input.ui_lang);
+      apply(language, country);
+    }
+    // DuckDuckGo regions are written country-first ("us-en"); "wt-wt" means no region
+    if (input.region && input.region.toLowerCase() !== 'wt-wt') {
+      const [country, language] = input.region.trim().split(/[-_]/);
+      apply(language?.toLowerCase(), country?.toUpperCase());
+    }
+    if (input.hl) {
+      const { language, country } = this.splitTag(input.hl);
+      apply(language, country);
+    }
+    if (input.lr) {
+      apply(input.lr.trim().toLowerCase().replace(/^lang_/, ''));
+    }
+    if (input.cr) {
+      apply(undefined, input.cr.trim().toUpperCase().replace(/^COUNTRY/, ''));
+    }
+
+    return locale;
+  }
+
+  // Accept a country code or an English country name
+  private resolveCountry(value: string, field: string): string {
+    const trimmed = value.trim();
+    const code = trimmed.toUpperCase() === 'UK' ? 'GB' : trimmed.toUpperCase();
+    if (COUNTRY_CODES.has(code)) return code;
+
+    const byName = getCountryNames().get(trimmed.toLowerCase());
+    if (byName) return byName;
+
+    throw new SearchError(`Invalid "${field}": expected an ISO 3166-1 alpha-2 country code or country name`, 400);
+  }
+
+  /**
+   * Resolve the request locale. Explicit `language`, `country` and `location` win over the
+   * legacy engine-specific fields; a country without a language gets that country's main language.
+   */
+  resolve(input: LocaleInput): Locale {
+    const legacy = this.fromLegacy(input);
+
+    let country: string | undefined;
+    if (input.country && input.location) {
+      const fromCountry = this.resolveCountry(input.country, 'country');
+      const fromLocation = this.resolveCountry(input.location, 'location');
+      if (fromCountry !== fromLocation) {
+        throw new SearchError('"country" and "location" refer to different countries', 400);
+      }
+      country = fromCountry;
+    } else if (input.country || input.location) {
+      country = input.country
+        ? this.resolveCountry(input.country, 'country')
+        : this.resolveCountry(input.location!, 'location');
+    }
+
+    let language: string | undefined;
+    if (input.language) {
+      if (ANY_LANGUAGE.includes(input.language.trim().toLowerCase())) {
+        if (country) {
+          throw new SearchError(`"language=${input.language}" cannot be combined with a country`, 400);
+        }
+        return { language: input.language.trim().toLowerCase() };
+      }
+
+      const tag = this.splitTag(input.language);
+      if (tag.country) {
+        const tagCountry = this.resolveCountry(tag.country, 'language');
+        if (country && country !== tagCountry) {
+          throw new SearchError(`"language" region ${tagCountry} conflicts with country ${country}`, 400);
+        }
+        country = tagCountry;
+      }
+      language = tag.language;
+    }
+
+    language = language || legacy.language;
+    if (!country && legacy.country) {
+      country = this.resolveCountry(legacy.country, 'country');
+    }
+
+    if (language && !LANGUAGE_CODES.has(language)) {
+      throw new SearchError('Invalid "language": expected an ISO 639-1 language code', 400);
+    }
+    if (country && !language) {
+      language = COUNTRY_LANGUAGES[country] || 'en';
+    }
+
+    return { language, country };
+  }
+
+  // Reject engine and locale combinations the engines cannot serve
+  validateForEngines(locale: Locale, engines: string[]) {
+    if (!locale.country) return;
+
+    const tag = `${locale.language}-${locale.country}`;
+    for (const engine of engines) {
+      const base = baseEngine(engine);
+
+      if (LANGUAGE_ONLY_ENGINES.includes(base)) {
+        throw new SearchError(`Engine "${engine}" does not support country targeting`, 400, {
+          engine,
+          country: locale.country,
+        });
+      }
+
+      const supported = ENGINE_LOCALES[base];
+      if (supported && !supported.includes(tag)) {
+        throw new SearchError(`Engine "${engine}" does not support the locale ${tag}`, 400, {
+          engine,
+          supported_locales: supported,
+        });
+      }
+    }
+  }
+
+  // SearXNG takes a single locale ("de-DE", or just "de") and maps it to each engine's own parameters
+  toSearxngLanguage(locale: Locale): string | undefined {
+    if (!locale.language) return undefined;
+    return locale.country ? `${locale.language}-${locale.country}` : locale.language;
+  }
+}
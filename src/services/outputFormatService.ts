@@ -0,0 +1,142 @@
+import express from 'express';
+import { SearchResponse } from './searchService';
+import { SearchType } from './verticalService';
+
+export type OutputFormat = 'json' | 'csv' | 'ndjson' | 'markdown';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'csv', 'ndjson', 'markdown'];
+
+const CONTENT_TYPES: Record<OutputFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+  markdown: 'text/markdown',
+};
+
+// Accept header media types mapped to formats (first match in the header wins)
+const ACCEPT_TYPES: Record<string, OutputFormat> = {
+  'application/json': 'json',
+  'text/csv': 'csv',
+  'application/x-ndjson': 'ndjson',
+  'application/ndjson': 'ndjson',
+  'application/jsonl': 'ndjson',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+};
+
+// CSV columns per search type; the order never changes so spreadsheets can rely on it
+const CSV_COLUMNS: Record<SearchType, string[]> = {
+  web: ['position', 'title', 'url', 'snippet', 'engine', 'published_date', 'engines', 'fused_score'],
+  images: ['position', 'title', 'url', 'image_url', 'thumbnail_url', 'width', 'height', 'format', 'source', 'engine'],
+  news: ['position', 'title', 'url', 'snippet', 'source', 'published_date', 'thumbnail_url', 'engine'],
+  videos: ['position', 'title', 'url', 'snippet', 'duration', 'author', 'published_date', 'thumbnail_url', 'embed_url', 'engine'],
+  maps: ['position', 'title', 'url', 'address', 'latitude', 'longitude', 'osm_type', 'osm_id', 'engine'],
+};
+
+export class OutputFormatService {
+  /**
+   * Pick the output format from an explicit `format` value, falling back to the Accept header.
+   * Returns null for an unknown explicit format.
+   */
+  resolveFormat(format: unknown, accept: string | undefined): OutputFormat | null {
+    if (format !== undefined && format !== null && format !== '') {
+      const requested = String(format).toLowerCase();
+      const normalized = requested === 'md' ? 'markdown' : requested === 'jsonl' ? 'ndjson' : requested;
+      return OUTPUT_FORMATS.includes(normalized as OutputFormat) ? normalized as OutputFormat : null;
+    }
+
+    for (const part of (accept || '').split(',')) {
+      const mediaType = part.split(';')[0].trim().toLowerCase();
+      if (ACCEPT_TYPES[mediaType]) return ACCEPT_TYPES[mediaType];
+    }
+
+    return 'json';
+  }
+
+  // Quote a CSV field and neutralize values a spreadsheet would evaluate as a formula
+  private csvField(value: unknown): string {
+    if (value === undefined || value === null) return '';
+
+    let text = Array.isArray(value) ? value.join(';') : String(value);
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  toCsv(response: SearchResponse): string {
+    const columns = CSV_COLUMNS[response.type] || CSV_COLUMNS.web;
+    const rows = response.results.map(result =>
+      columns.map(column => this.csvField((result as Record<string, any>)[column])).join(',')
+    );
+
+    return [columns.join(','), ...rows].join('\r\n') + '\r\n';
+  }
+
+  toNdjson(response: SearchResponse): string {
+    return response.results.map(result => JSON.stringify(result)).join('\n') + (response.results.length > 0 ? '\n' : '');
+  }
+
+  // Compact digest for LLM pipelines: answers, then results, then suggestions
+  toMarkdown(response: SearchResponse): string {
+    const oneLine = (text: unknown) => String(text ?? '').replace(/\s+/g, ' ').trim();
+    const lines: string[] = [`# ${oneLine(response.query)}`, ''];
+
+    const answers = response.answers
+      .map(answer => oneLine(typeof answer === 'string' ? answer : answer?.answer || answer?.content))
+      .filter(Boolean);
+    if (answers.length > 0) {
+      lines.push('## Answers', '', ...answers.map(answer => `- ${answer}`), '');
+    }
+
+    lines.push('## Results', '');
+    if (response.results.length === 0) {
+      lines.push('_No results._', '');
+    }
+    response.results.forEach(result => {
+      const item = result as Record<string, any>;
+      const title = oneLine(item.title).replace(/[[\]]/g, '') || item.url;
+      lines.push(`${item.position}. [${title}](${item.url})`);
+
+      const details = [
+        item.source,
+        item.published_date,
+        item.duration,
+        item.address,
+        item.latitude !== undefined && item.latitude !== null ? `${item.latitude}, ${item.longitude}` : null,
+      ].filter(Boolean).map(oneLine);
+      if (details.length > 0) lines.push(`   _${details.join(' · ')}_`);
+
+      const snippet = oneLine(item.snippet);
+      if (snippet) lines.push(`   ${snippet}`);
+    });
+
+    if (response.suggestions.length > 0) {
+      lines.push('', '## Related searches', '', ...response.suggestions.map(suggestion => `- ${oneLine(suggestion)}`));
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  // Send a search response in the requested format; non-JSON formats carry metadata in headers
+  send(res: express.Response, response: SearchResponse, format: OutputFormat) {
+    if (format === 'json') {
+      return res.json(response);
+    }
+
+    res.set({
+      'Content-Type': `${CONTENT_TYPES[format]}; charset=utf-8`,
+      'X-Search-Id': response.id,
+      'X-Result-Count': String(response.results.length),
+      'X-Credits-Used': String(response.metadata.credits.used_for_request),
+      'X-Credits-Balance': String(response.metadata.credits.balance),
+    });
+
+    const body = format === 'csv'
+      ? this.toCsv(response)
+      : format === 'ndjson' ? this.toNdjson(response) : this.toMarkdown(response);
+
+    return res.send(body);
+  }
+}
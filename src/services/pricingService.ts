@@ -0,0 +1,38 @@
+import { EngineRegistryService } from './engineRegistryService';
+import { SearchType } from './verticalService';
+
+// Credits charged when a request is served from the result cache
+const CACHE_HIT_CREDIT_COST = Math.max(0, parseInt(process.env.CACHE_HIT_CREDIT_COST || '0', 10) || 0);
+
+// Itemized price of a search, returned in quotes and metadata.credits and stored in the search log
+export interface PriceBreakdown {
+  type: SearchType;
+  engines: Array<{ engine: string; cost_per_page: number }>;
+  cost_per_page: number; // Sum over every engine queried
+  pages: number;
+  cached: boolean;
+  total: number;
+}
+
+export class PricingService {
+  private engineRegistry = new EngineRegistryService();
+
+  /**
+   * Price a request. Every engine is queried for every page, so each one is billed per page;
+   * a cache hit costs the flat CACHE_HIT_CREDIT_COST instead.
+   * Engine costs come from the registry snapshot, which validation has already loaded.
+   */
+  price(type: SearchType, engines: string[], usage: { pages: number; cached: boolean }): PriceBreakdown {
+    const perEngine = engines.map(engine => ({ engine, cost_per_page: this.engineRegistry.getCost(engine) }));
+    const costPerPage = perEngine.reduce((sum, item) => sum + item.cost_per_page, 0);
+
+    return {
+      type,
+      engines: perEngine,
+      cost_per_page: costPerPage,
+      pages: usage.cached ? 0 : usage.pages,
+      cached: usage.cached,
+      total: usage.cached ? CACHE_HIT_CREDIT_COST : costPerPage * usage.pages,
+    };
+  }
+}
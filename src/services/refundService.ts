@@ -0,0 +1,43 @@
+import { CreditRefund } from './creditService';
+import { PriceBreakdown } from './pricingService';
+
+// Refund policy. Requests that fail upstream are never charged (their reservation is released),
+// so these only cover searches that returned a response while some engines didn't answer.
+const REFUND_EMPTY_RESULTS = process.env.REFUND_EMPTY_RESULTS !== 'false';
+const REFUND_PARTIAL_RESULTS = process.env.REFUND_PARTIAL_RESULTS !== 'false';
+
+// How a search went upstream, as far as billing is concerned
+export interface SearchOutcome {
+  results: number;
+  // Requested engines that didn't answer, with the number of pages they failed on
+  unresponsive: Map<string, number>;
+}
+
+export class RefundService {
+  /**
+   * Credits to hand back for a search that was priced as `pricing`:
+   * - nothing came back and engines failed: a full refund (REFUND_EMPTY_RESULTS)
+   * - only some engines answered: each failed engine's per-page cost for every page it failed on (REFUND_PARTIAL_RESULTS)
+   * Cache hits are never refunded.
+   */
+  assess(pricing: PriceBreakdown, outcome: SearchOutcome): CreditRefund | null {
+    if (pricing.cached || pricing.total <= 0 || outcome.unresponsive.size === 0) return null;
+
+    const engines = [...outcome.unresponsive.keys()];
+
+    if (outcome.results === 0) {
+      return REFUND_EMPTY_RESULTS
+        ? { amount: pricing.total, reason: `No results, unresponsive engines: ${engines.join(', ')}` }
+        : null;
+    }
+
+    if (!REFUND_PARTIAL_RESULTS) return null;
+
+    const amount = pricing.engines.reduce((sum, item) =>
+      sum + item.cost_per_page * Math.min(outcome.unresponsive.get(item.engine) || 0, pricing.pages), 0);
+
+    return amount > 0
+      ? { amount: Math.min(amount, pricing.total), reason: `Unresponsive engines: ${engines.join(', ')}` }
+      : null;
+  }
+}
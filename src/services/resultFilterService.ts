@@ -0,0 +1,144 @@
+// Engines whose query syntax understands site:, -site: and filetype:
+const OPERATOR_ENGINES = ['google', 'bing', 'duckduckgo', 'brave', 'startpage', 'yahoo'];
+
+const MAX_DOMAINS = 20;
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9-]{1,63}\.)+[a-z]{2,63}$/;
+const FILETYPE_PATTERN = /^[a-z0-9]{1,10}$/;
+
+export interface ResultFilters {
+  include_domains?: string[];
+  exclude_domains?: string[];
+  filetype?: string;
+  max_per_domain?: number;
+}
+
+function hostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+// A domain filter matches the domain itself and any of its subdomains
+function matchesDomain(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+export class ResultFilterService {
+  // Reduce user input ("https://www.Example.com/path") to a bare domain ("example.com")
+  private normalizeDomain(value: string): string {
+    return value.trim().toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/[/?#].*$/, '')
+      .replace(/^www\./, '')
+      .replace(/\.$/, '');
+  }
+
+  // Validate and normalize filter parameters
+  validate(filters: ResultFilters): { filters?: ResultFilters; error?: string } {
+    const result: ResultFilters = {};
+
+    for (const field of ['include_domains', 'exclude_domains'] as const) {
+      const list = filters[field];
+      if (list === undefined || list.length === 0) continue;
+
+      if (list.length > MAX_DOMAINS) {
+        return { error: `"${field}" accepts at most ${MAX_DOMAINS} domains` };
+      }
+
+      const domains = [...new Set(list.map(domain => this.normalizeDomain(String(domain))))];
+      const invalid = domains.filter(domain => !DOMAIN_PATTERN.test(domain));
+      if (invalid.length > 0) {
+        return { error: `Invalid domain in "${field}": ${invalid.join(', ')}` };
+      }
+      result[field] = domains;
+    }
+
+    if (result.include_domains && result.exclude_domains) {
+      const overlap = result.include_domains.filter(domain => result.exclude_domains!.includes(domain));
+      if (overlap.length > 0) {
+        return { error: `Domains cannot be both included and excluded: ${overlap.join(', ')}` };
+      }
+    }
+
+    if (filters.filetype !== undefined && filters.filetype !== '') {
+      const filetype = String(filters.filetype).trim().toLowerCase().replace(/^\./, '');
+      if (!FILETYPE_PATTERN.test(filetype)) {
+        return { error: '"filetype" must be a file extension such as pdf or docx' };
+      }
+      result.filetype = filetype;
+    }
+
+    if (filters.max_per_domain !== undefined) {
+      if (!Number.isInteger(filters.max_per_domain) || filters.max_per_domain < 1) {
+        return { error: '"max_per_domain" must be a positive integer' };
+      }
+      result.max_per_domain = filters.max_per_domain;
+    }
+
+    return { filters: result };
+  }
+
+  hasFilters(filters: ResultFilters): boolean {
+    return !!(filters.include_domains || filters.exclude_domains || filters.filetype || filters.max_per_domain);
+  }
+
+  // SearXNG sends one query to every engine, so operators are only added when all of them understand it
+  supportsOperators(engines: string[]): boolean {
+    return engines.every(engine => OPERATOR_ENGINES.includes(engine));
+  }
+
+  /**
+   * Query operators for the filters. OR-ing several site: terms is not understood by every engine,
+   * so only a single included domain becomes an operator; the rest is left to post-filtering.
+   */
+  buildOperators(filters: ResultFilters): string {
+    const operators: string[] = [];
+
+    if (filters.include_domains?.length === 1) {
+      operators.push(`site:${filters.include_domains[0]}`);
+    }
+    filters.exclude_domains?.forEach(domain => operators.push(`-site:${domain}`));
+    if (filters.filetype) {
+      operators.push(`filetype:${filters.filetype}`);
+    }
+
+    return operators.join(' ');
+  }
+
+  /**
+   * Enforce the filters on normalized results, whatever the engines did with the operators.
+   * `domainCounts` carries max_per_domain counts across pages of a multi-page request.
+   */
+  apply<T extends { url: string }>(
+    results: T[],
+    filters: ResultFilters,
+    domainCounts: Map<string, number> = new Map()
+  ): { results: T[]; removed: number } {
+    const kept = results.filter(result => {
+      const host = hostname(result.url);
+      if (!host) return false;
+
+      if (filters.include_domains && !filters.include_domains.some(domain => matchesDomain(host, domain))) {
+        return false;
+      }
+      if (filters.exclude_domains && filters.exclude_domains.some(domain => matchesDomain(host, domain))) {
+        return false;
+      }
+      if (filters.filetype) {
+        const path = new URL(result.url).pathname.toLowerCase();
+        if (!path.endsWith(`.${filters.filetype}`)) return false;
+      }
+      if (filters.max_per_domain) {
+        const seen = domainCounts.get(host) || 0;
+        if (seen >= filters.max_per_domain) return false;
+        domainCounts.set(host, seen + 1);
+      }
+
+      return true;
+    });
+
+    return { results: kept, removed: results.length - kept.length };
+  }
+}
@@ -0,0 +1,111 @@
+import { SearchResult } from './searchService';
+
+// Reciprocal rank fusion constant (the usual k = 60 from Cormack et al.)
+const RRF_K = 60;
+
+// Query parameters that only track clicks and never change the page
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|msclkid|yclid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+// Raw result fields the merger needs from SearXNG
+export interface RawEngineResult {
+  title?: string;
+  url?: string;
+  content?: string;
+  snippet?: string;
+  publishedDate?: string;
+  engine?: string;
+  engines?: string[];
+  // Rank the result had in each engine's own list, as reported by SearXNG (one per engine)
+  positions?: number[];
+}
+
+export class ResultMergeService {
+  // Reduce a URL to a form where trivially different links compare equal
+  canonicalizeUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+      const path = parsed.pathname.replace(/\/+$/, '') || '/';
+
+      const params = [...parsed.searchParams.entries()]
+        .filter(([key]) => !TRACKING_PARAMS.test(key))
+        .sort(([a], [b]) => a.localeCompare(b));
+      const query = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+
+      // Scheme and fragment are ignored on purpose: http/https and #anchors point at the same document
+      return `${host}${parsed.port ? `:${parsed.port}` : ''}${path}${query}`;
+    } catch {
+      return url.trim().toLowerCase();
+    }
+  }
+
+  /**
+   * Collapse duplicates across engines and order results by reciprocal rank fusion over each
+   * engine's own ranking. SearXNG reports those ranks as `positions`, one per engine that returned the
+   * result; the fused score only depends on the ranks themselves, which are attributed to engines in
+   * the order SearXNG lists both. Without them (older SearXNG), a result's rank is the order in which
+   * that engine's results appear upstream, which is exact when each upstream list holds a single engine (streams).
+   * `duplicatesRemoved` counts every engine hit folded into another one, including the ones SearXNG
+   * already folded together by exact URL.
+   */
+  merge(rawResults: RawEngineResult[], fallbackEngine: string = 'unknown'): { results: SearchResult[]; duplicatesRemoved: number } {
+    const engineCounters: Record<string, number> = {};
+    let engineHits = 0;
+    const merged = new Map<string, SearchResult & { engines: string[]; engine_ranks: Record<string, number> }>();
+
+    for (const raw of rawResults) {
+      if (!raw.url) continue;
+
+      const engines = raw.engines && raw.engines.length > 0 ? raw.engines : [raw.engine || fallbackEngine];
+      const positions = Array.isArray(raw.positions) && raw.positions.length === engines.length
+        && raw.positions.every(position => Number.isInteger(position) && position > 0)
+        ? raw.positions
+        : null;
+      const ranks: Record<string, number> = {};
+      engines.forEach((engine, index) => {
+        engineCounters[engine] = (engineCounters[engine] || 0) + 1;
+        ranks[engine] = positions ? positions[index] : engineCounters[engine];
+      });
+      engineHits += engines.length;
+
+      const key = this.canonicalizeUrl(raw.url);
+      const snippet = raw.content || raw.snippet || '';
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, {
+          title: raw.title || '',
+          url: raw.url,
+          snippet,
+          position: 0,
+          engine: engines[0],
+          published_date: raw.publishedDate || null,
+          engines: [...engines],
+          engine_ranks: ranks,
+        });
+        continue;
+      }
+
+      Object.entries(ranks).forEach(([engine, rank]) => {
+        if (!existing.engines.includes(engine)) existing.engines.push(engine);
+        existing.engine_ranks[engine] = Math.min(existing.engine_ranks[engine] ?? rank, rank);
+      });
+      if (snippet.length > existing.snippet.length) existing.snippet = snippet;
+      if (!existing.published_date && raw.publishedDate) existing.published_date = raw.publishedDate;
+    }
+
+    const results = [...merged.values()]
+      .map(result => ({
+        ...result,
+        fused_score: Object.values(result.engine_ranks).reduce((score, rank) => score + 1 / (RRF_K + rank), 0),
+      }))
+      .sort((a, b) => b.fused_score - a.fused_score)
+      .map((result, index) => ({
+        ...result,
+        position: index + 1,
+        fused_score: Math.round(result.fused_score * 1e6) / 1e6,
+      }));
+
+    return { results, duplicatesRemoved: engineHits - results.length };
+  }
+}
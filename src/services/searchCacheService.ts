@@ -0,0 +1,120 @@
+import crypto from 'crypto';
+import { db } from '../db/index';
+import { searchCache } from '../db/schema';
+import { eq, and, gt, lt } from 'drizzle-orm';
+
+// Cache lifetime in seconds (CACHE_TTL), defaults to one hour
+const CACHE_TTL_SECONDS = parseInt(process.env.CACHE_TTL || '', 10) || 3600;
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+// Fields of a search request that change what SearXNG returns
+export interface CacheKeyInput {
+  q: string;
+  engines?: string[];
+  language?: string;
+  pageno?: number;
+  time_range?: string;
+  safesearch?: number;
+  category?: string;
+  [param: string]: unknown;
+}
+
+export class SearchCacheService {
+  // Build a stable hash for a search request
+  buildKey(input: CacheKeyInput): string {
+    const { q, engines, language, pageno, time_range, safesearch, category, ...rest } = input;
+
+    const extras = Object.keys(rest)
+      .filter(key => rest[key] !== undefined && rest[key] !== null && key !== 'cache')
+      .sort()
+      .map(key => [key, rest[key]]);
+
+    const normalized = JSON.stringify({
+      q: q.trim().toLowerCase().replace(/\s+/g, ' '),
+      engines: [...(engines || [])].sort(),
+      language: (language || '').toLowerCase(),
+      pageno: pageno || 1,
+      time_range: time_range && time_range !== 'all' ? time_range : '',
+      safesearch: safesearch ?? 1,
+      category: category || 'general',
+      extras,
+    });
+
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  // Get a cached payload if it has not expired
+  async get<T>(queryHash: string): Promise<T | null> {
+    try {
+      const [entry] = await db.select()
+        .from(searchCache)
+        .where(and(
+          eq(searchCache.queryHash, queryHash),
+          gt(searchCache.expiresAt, new Date())
+        ))
+        .limit(1);
+
+      return entry ? JSON.parse(entry.results) as T : null;
+    } catch (error) {
+      console.error('Search cache read error:', error);
+      return null;
+    }
+  }
+
+  // Store (or refresh) a payload for a search request
+  async set(queryHash: string, query: string, payload: unknown, ttlSeconds: number = CACHE_TTL_SECONDS) {
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    const results = JSON.stringify(payload);
+
+    try {
+      await db.insert(searchCache)
+        .values({
+          query: query.slice(0, 500),
+          queryHash,
+          results,
+          expiresAt,
+        })
+        .onConflictDoUpdate({
+          target: searchCache.queryHash,
+          set: { results, expiresAt, createdAt: new Date() },
+        });
+    } catch (error) {
+      console.error('Search cache write error:', error);
+    }
+  }
+
+  // Delete expired entries, returning how many were removed
+  async sweepExpired(): Promise<number> {
+    const deleted = await db.delete(searchCache)
+      .where(lt(searchCache.expiresAt, new Date()))
+      .returning({ id: searchCache.id });
+
+    return deleted.length;
+  }
+
+  // Periodically sweep expired entries
+  startSweeper(intervalMs: number = SWEEP_INTERVAL_MS) {
+    if (sweepTimer) return;
+
+    sweepTimer = setInterval(async () => {
+      try {
+        const removed = await this.sweepExpired();
+        if (removed > 0) {
+          console.log(`🧹 Removed ${removed} expired search cache entries`);
+        }
+      } catch (error) {
+        console.error('Search cache sweep error:', error);
+      }
+    }, intervalMs);
+    sweepTimer.unref();
+  }
+
+  stopSweeper() {
+    if (sweepTimer) {
+      clearInterval(sweepTimer);
+      sweepTimer = null;
+    }
+  }
+}
@@ -0,0 +1,353 @@
+import { db } from '../db/index';
+import { searchJobs, searchJobResults } from '../db/schema';
+import { eq, and, asc, desc, inArray, lt } from 'drizzle-orm';
+import { SearchService, SearchOptions, SearchContext, SearchError, BATCH_MAX_ITEMS } from './searchService';
+import { CreditService } from './creditService';
+import { validateWebhookUrl } from './webhookUrlGuard';
+import { signWebhookPayload } from './webhookSigner';
+
+// How long finished jobs and their results are kept
+const SEARCH_JOB_RETENTION_MS = (parseInt(process.env.SEARCH_JOB_RETENTION_HOURS || '', 10) || 72) * 60 * 60 * 1000;
+// Jobs processed at the same time by this process
+const SEARCH_JOB_CONCURRENCY = parseInt(process.env.SEARCH_JOB_CONCURRENCY || '', 10) || 2;
+// Secret used to sign completion callbacks; callbacks are refused without one
+const SEARCH_JOB_WEBHOOK_SECRET = process.env.SEARCH_JOB_WEBHOOK_SECRET || '';
+
+const CALLBACK_TIMEOUT_MS = 10000;
+// Delay before each callback delivery attempt
+const CALLBACK_RETRY_DELAYS_MS = [0, 5000, 30000];
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type SearchJobType = 'search' | 'batch';
+export type SearchJobRow = typeof searchJobs.$inferSelect;
+
+// Jobs waiting for a worker, shared across service instances
+const queue: string[] = [];
+let activeJobs = 0;
+let sweepTimer: NodeJS.Timeout | null = null;
+
+export class SearchJobService {
+  private searchService = new SearchService();
+  private creditService = new CreditService();
+
+  // Validate a callback URL supplied by the client
+  private async parseCallbackUrl(callbackUrl: unknown): Promise<string | null> {
+    if (callbackUrl === undefined || callbackUrl === null || callbackUrl === '') {
+      return null;
+    }
+
+    if (!SEARCH_JOB_WEBHOOK_SECRET) {
+      throw new SearchError('Completion callbacks are not enabled on this server', 400);
+    }
+
+    const { url, error } = await validateWebhookUrl(callbackUrl, 'callback_url');
+    if (error) {
+      throw new SearchError(error, 400);
+    }
+
+    return url!;
+  }
+
+  // Persist a job and queue it; the caller gets the job back immediately
+  async createJob(type: SearchJobType, items: SearchOptions[], context: SearchContext, callbackUrl?: unknown) {
+    if (items.length > BATCH_MAX_ITEMS) {
+      throw new SearchError(`Too many queries in batch (max ${BATCH_MAX_ITEMS})`, 400);
+    }
+
+    // A single search is validated up front; batch items are validated (and reported) individually
+    const request = type === 'search' ? [await this.searchService.validateOptions(items[0])] : items;
+    const callback = await this.parseCallbackUrl(callbackUrl);
+
+    // Refuse jobs the organization clearly can't pay for; the full estimate is checked when the job runs
+    await this.searchService.checkCreditBalance(context.organizationId);
+
+    const [job] = await db.insert(searchJobs).values({
+      organizationId: context.organizationId,
+      apiKeyId: context.apiKeyId,
+      type,
+      request,
+      itemsTotal: request.length,
+      callbackUrl: callback,
+      callbackStatus: callback ? 'pending' : null,
+      expiresAt: new Date(Date.now() + SEARCH_JOB_RETENTION_MS),
+    }).returning();
+
+    this.enqueue(job.id);
+    return job;
+  }
+
+  async getJob(jobId: string, organizationId: string) {
+    const [job] = await db.select()
+      .from(searchJobs)
+      .where(and(
+        eq(searchJobs.id, jobId),
+        eq(searchJobs.organizationId, organizationId)
+      ))
+      .limit(1);
+
+    return job || null;
+  }
+
+  async getJobResults(jobId: string) {
+    return db.select()
+      .from(searchJobResults)
+      .where(eq(searchJobResults.jobId, jobId))
+      .orderBy(asc(searchJobResults.itemIndex));
+  }
+
+  async listJobs(organizationId: string, limit: number, offset: number) {
+    return db.select()
+      .from(searchJobs)
+      .where(eq(searchJobs.organizationId, organizationId))
+      .orderBy(desc(searchJobs.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Public representation of a job (without results)
+  formatJob(job: SearchJobRow) {
+    return {
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      items: {
+        total: job.itemsTotal,
+        completed: job.itemsCompleted,
+        failed: job.itemsFailed,
+      },
+      credits_charged: job.creditsCharged,
+      error: job.error,
+      callback: job.callbackUrl
+        ? { url: job.callbackUrl, status: job.callbackStatus, attempts: job.callbackAttempts }
+        : null,
+      created_at: job.createdAt,
+      started_at: job.startedAt,
+      completed_at: job.completedAt,
+      expires_at: job.expiresAt,
+    };
+  }
+
+  private enqueue(jobId: string) {
+    queue.push(jobId);
+    this.drain();
+  }
+
+  private drain() {
+    while (activeJobs < SEARCH_JOB_CONCURRENCY && queue.length > 0) {
+      const jobId = queue.shift()!;
+      activeJobs++;
+
+      this.runJob(jobId)
+        .catch(error => console.error(`Search job ${jobId} crashed:`, error))
+        .finally(() => {
+          activeJobs--;
+          this.drain();
+        });
+    }
+  }
+
+  /**
+   * Run every item of a job through the batch pipeline, which bills the successful items
+   * in one settlement, recorded against the job, when the job completes.
+   */
+  private async runJob(jobId: string) {
+    const [job] = await db.select().from(searchJobs).where(eq(searchJobs.id, jobId)).limit(1);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return;
+    }
+
+    // A job interrupted by a restart is re-run from scratch, unless it was already charged: then its
+    // searches ran and re-running would bill them twice, so it's closed with what was charged
+    if (job.status === 'running') {
+      const charged = await this.creditService.getChargedTotal('search_job', jobId);
+      if (charged !== null) {
+        await this.finishInterrupted(job, charged);
+        return;
+      }
+    }
+
+    await db.update(searchJobs)
+      .set({ status: 'running', startedAt: new Date() })
+      .where(eq(searchJobs.id, jobId));
+
+    await db.delete(searchJobResults).where(eq(searchJobResults.jobId, jobId));
+
+    const context: SearchContext = {
+      organizationId: job.organizationId,
+      apiKeyId: job.apiKeyId ?? undefined,
+    };
+
+    let finished: SearchJobRow;
+    try {
+      // The batch reserves its worst-case cost up front and settles what the successful items used
+      // Results are stored before the charge, so a charged job always has its results
+      const batch = await this.searchService.searchBatch(job.request as SearchOptions[], context, {
+        reference: { referenceType: 'search_job', referenceId: jobId },
+        beforeSettle: async items => {
+          if (items.length > 0) {
+            await db.insert(searchJobResults).values(items.map(item => ({
+              jobId,
+              itemIndex: item.index,
+              status: item.status,
+              response: item.response ?? null,
+              error: item.error ?? null,
+            })));
+          }
+        },
+      });
+
+      [finished] = await db.update(searchJobs)
+        .set({
+          status: 'completed',
+          itemsCompleted: batch.succeeded,
+          itemsFailed: batch.failed,
+          creditsCharged: batch.credits.used,
+          completedAt: new Date(),
+        })
+        .where(eq(searchJobs.id, jobId))
+        .returning();
+    } catch (error) {
+      // Whole-job failures (e.g. insufficient credits) are never charged
+      [finished] = await db.update(searchJobs)
+        .set({
+          status: 'failed',
+          itemsFailed: job.itemsTotal,
+          error: error instanceof SearchError ? error.message : 'Internal server error',
+          completedAt: new Date(),
+        })
+        .where(eq(searchJobs.id, jobId))
+        .returning();
+    }
+
+    // Delivery retries run outside the worker slot so they never hold up other jobs
+    if (finished.callbackUrl) {
+      this.deliverCallback(finished)
+        .catch(error => console.error(`Search job ${jobId} callback delivery crashed:`, error));
+    }
+  }
+
+  // Close a job that was charged but interrupted before it finished; results that were stored are kept
+  private async finishInterrupted(job: SearchJobRow, charged: number) {
+    const results = await this.getJobResults(job.id);
+    const completed = results.filter(result => result.status === 'success').length;
+    const complete = results.length === job.itemsTotal;
+
+    const [finished] = await db.update(searchJobs)
+      .set({
+        status: complete ? 'completed' : 'failed',
+        itemsCompleted: completed,
+        itemsFailed: job.itemsTotal - completed,
+        creditsCharged: charged,
+        error: complete ? null : 'Job was interrupted after it was charged; its results could not be recovered',
+        completedAt: new Date(),
+      })
+      .where(eq(searchJobs.id, job.id))
+      .returning();
+
+    if (finished.callbackUrl) {
+      this.deliverCallback(finished)
+        .catch(error => console.error(`Search job ${job.id} callback delivery crashed:`, error));
+    }
+  }
+
+  // POST the finished job to its callback URL, retrying with backoff
+  private async deliverCallback(job: SearchJobRow) {
+    const body = JSON.stringify({
+      event: job.status === 'completed' ? 'search_job.completed' : 'search_job.failed',
+      job: this.formatJob(job),
+    });
+
+    for (let attempt = 0; attempt < CALLBACK_RETRY_DELAYS_MS.length; attempt++) {
+      if (CALLBACK_RETRY_DELAYS_MS[attempt] > 0) {
+        await new Promise(resolve => setTimeout(resolve, CALLBACK_RETRY_DELAYS_MS[attempt]));
+      }
+
+      // Re-checked on every attempt: the host may resolve somewhere else than when the job was created
+      const { error: urlError } = await validateWebhookUrl(job.callbackUrl, 'callback_url');
+      if (urlError) {
+        console.warn(`Search job ${job.id} callback refused: ${urlError}`);
+        await db.update(searchJobs)
+          .set({ callbackAttempts: attempt + 1, callbackStatus: 'failed' })
+          .where(eq(searchJobs.id, job.id));
+        return;
+      }
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), CALLBACK_TIMEOUT_MS);
+      let delivered = false;
+
+      try {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const response = await fetch(job.callbackUrl!, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'SERP-API-Webhooks/1.0',
+            'X-Serp-Job-Id': job.id,
+            'X-Serp-Signature': signWebhookPayload(SEARCH_JOB_WEBHOOK_SECRET, body, timestamp),
+          },
+          body,
+          // Redirects aren't followed, so a public URL can't bounce the request to an internal one
+          redirect: 'manual',
+          signal: controller.signal,
+        });
+        delivered = response.ok;
+        if (!delivered) {
+          console.warn(`Search job ${job.id} callback returned HTTP ${response.status}`);
+        }
+      } catch (error) {
+        console.warn(`Search job ${job.id} callback failed:`, error instanceof Error ? error.message : error);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+
+      const isLastAttempt = attempt === CALLBACK_RETRY_DELAYS_MS.length - 1;
+      await db.update(searchJobs)
+        .set({
+          callbackAttempts: attempt + 1,
+          callbackStatus: delivered ? 'delivered' : isLastAttempt ? 'failed' : 'pending',
+        })
+        .where(eq(searchJobs.id, job.id));
+
+      if (delivered) return;
+    }
+  }
+
+  // Delete expired jobs (results cascade)
+  async sweepExpired() {
+    const deleted = await db.delete(searchJobs)
+      .where(lt(searchJobs.expiresAt, new Date()))
+      .returning({ id: searchJobs.id });
+
+    if (deleted.length > 0) {
+      console.log(`🧹 Removed ${deleted.length} expired search jobs`);
+    }
+  }
+
+  // Re-queue unfinished jobs and start the retention sweeper
+  async start() {
+    if (sweepTimer) return;
+
+    const run = () => this.sweepExpired().catch(error => console.error('Search job sweep failed:', error));
+    run();
+    sweepTimer = setInterval(run, SWEEP_INTERVAL_MS);
+    sweepTimer.unref();
+
+    const pending = await db.select({ id: searchJobs.id })
+      .from(searchJobs)
+      .where(inArray(searchJobs.status, ['queued', 'running']))
+      .orderBy(asc(searchJobs.createdAt));
+
+    pending.forEach(job => this.enqueue(job.id));
+    if (pending.length > 0) {
+      console.log(`🔁 Resumed ${pending.length} unfinished search jobs`);
+    }
+  }
+
+  stop() {
+    if (sweepTimer) {
+      clearInterval(sweepTimer);
+      sweepTimer = null;
+    }
+  }
+}
@@ -1,7 +1,47 @@
 import express from 'express';
+import crypto from 'crypto';
 import { db } from '../db/index';
 import { apiKeys, serpSearchResults, workspaceCredits } from '../db/schema';
-import { eq, and, sql } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
+import { SearchCacheService } from './searchCacheService';
+import { InstanceService, SearxngInstance } from './instanceService';
+import { ResultMergeService } from './resultMergeService';
+import { ResultFilterService, ResultFilters } from './resultFilterService';
+import { LocaleService, LocaleInput } from './localeService';
+import { EngineRegistryService } from './engineRegistryService';
+import { PricingService, PriceBreakdown } from './pricingService';
+import { CreditService, CreditReservation, ChargeReference, CreditRefund } from './creditService';
+import { RefundService, SearchOutcome } from './refundService';
+import { SearchError } from './errors';
+import {
+  VerticalService,
+  SearchType,
+  VerticalResult,
+  RawVerticalResult,
+  SEARCH_VERTICALS,
+  SEARCH_TYPES
+} from './verticalService';
+
+export { SearchError };
+
+const SEARXNG_TIMEOUT_MS = parseInt(process.env.SEARXNG_TIMEOUT_MS || '', 10) || 15000;
+// Maximum number of instances tried for a single request
+const SEARXNG_MAX_ATTEMPTS = parseInt(process.env.SEARXNG_MAX_ATTEMPTS || '', 10) || 3;
+const MAX_QUERY_LENGTH = 500;
+// Locale fields, all plain strings (including the legacy engine-specific ones)
+const LOCALE_FIELDS: Array<keyof LocaleInput> = ['language', 'country', 'location', 'hl', 'lr', 'cr', 'mkt', 'region', 'ui_lang'];
+
+// Multi-page aggregation (`num`): most results a request may ask for, pages fetched at most,
+// and the page size assumed when estimating how many pages a request needs
+const MAX_NUM_RESULTS = 100;
+const MAX_PAGES_PER_REQUEST = parseInt(process.env.SEARCH_MAX_PAGES || '', 10) || 10;
+const RESULTS_PER_PAGE = 10;
+
+// Batch limits
+export const BATCH_MAX_ITEMS = parseInt(process.env.BATCH_MAX_ITEMS || '', 10) || 100;
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || '', 10) || 5;
+// Batches run longer than single requests, so their reservation is held longer
+const BATCH_RESERVATION_TTL_MS = 60 * 60 * 1000;
 
 export interface SearchResult {
   title: string;
@@ -10,64 +50,440 @@ export interface SearchResult {
   position: number;
   engine: string;
   published_date: string | null;
+
+  // Present when results are merged across engines
+  engines?: string[];
+  engine_ranks?: Record<string, number>;
+  fused_score?: number;
 }
 
 export interface SearchOptions {
   // Common parameters
   q: string;
+  type?: SearchType; // Vertical to search (defaults to web)
   engines?: string[];
   language?: string;
   pageno?: number;
   time_range?: string;
-  format?: string;
-  safesearch?: string;
-  
-  // Google specific
+  safesearch?: number;
+  category?: string;
+
+  // Target country: ISO 3166-1 alpha-2 code; `location` also accepts a country name
+  country?: string;
+  location?: string;
+
+  // Legacy engine-specific locale parameters, folded into language/country during validation
   hl?: string;
   lr?: string;
   cr?: string;
-  
-  // Bing specific
   mkt?: string;
-  
-  // DuckDuckGo specific
   region?: string;
-  
-  // Brave specific
-  category?: string;
-  spellcheck?: boolean;
   ui_lang?: string;
-  country?: string;
 
-  // Legacy support
-  page?: number;
+  spellcheck?: boolean;
+
+  // Number of results wanted; consecutive pages are fetched (and billed) until it is reached
+  num?: number;
+
+  // Result filters, sent as query operators where engines support them and always enforced afterwards
+  include_domains?: string[];
+  exclude_domains?: string[];
+  filetype?: string;
+  max_per_domain?: number;
+
+  // Collapse duplicates across engines and rank by reciprocal rank fusion
+  merge?: boolean;
+
+  // Set to false to skip the result cache for this request
+  cache?: boolean;
+}
+
+// Who the search runs for
+export interface SearchContext {
+  organizationId: string;
+  apiKeyId?: number;
+  // Skip reserving and charging; the caller holds a reservation and settles the reported credits (batches)
+  deferCharge?: boolean;
+}
+
+export interface SearchResponse {
+  id: string;
+  query: string;
+  engines: string[];
+  type: SearchType;
+  results: Array<SearchResult | VerticalResult>;
+  answers: any[];
+  corrections: string[];
+  infoboxes: any[];
+  suggestions: string[];
+  metadata: {
+    number_of_results: number;
+    response_time: number;
+    total_response_time: number;
+    timestamp: string;
+    page: number;
+    language?: string;
+    country?: string;
+    safe_search?: number;
+    time_range?: string;
+    category?: string;
+    merged: boolean;
+    duplicates_removed?: number;
+    filters?: ResultFilters & { applied_as_operators: boolean; filtered_out: number };
+    instance_used: string;
+    instances_tried: InstanceAttempt[];
+    cached: boolean;
+    api_version: string;
+    credits: {
+      used_for_request: number;
+      balance: number;
+      // Present for multi-page (`num`) requests
+      pages_fetched?: number;
+      cost_per_page?: number;
+      // Present when engines failed to answer and part or all of the price was handed back
+      refunded?: number;
+      refund_reason?: string;
+      breakdown: PriceBreakdown;
+    };
+  };
+}
+
+export interface BatchItemResult {
+  index: number;
+  status: 'success' | 'error';
+  response?: SearchResponse;
+  error?: { message: string; status: number; [key: string]: any };
+}
+
+export interface BatchResponse {
+  id: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  credits: {
+    used: number;
+    refunded: number;
+    balance: number;
+  };
+  items: BatchItemResult[];
+}
+
+// One upstream call made while serving a request
+export interface InstanceAttempt {
+  instance: string;
+  status: 'success' | 'error';
+  http_status?: number;
+  error?: string;
+  response_time: number;
+}
+
+// Normalized upstream answer, as stored in the result cache
+interface SearchPayload {
+  results: Array<SearchResult | VerticalResult>;
+  number_of_results: number;
+  duplicates_removed?: number;
+  answers: any[];
+  corrections: string[];
+  infoboxes: any[];
+  suggestions: string[];
+  instance: string;
+  // Upstream pages the results were aggregated from
+  pages?: number;
+  // Results dropped by include/exclude/filetype/max_per_domain filters
+  filtered_out?: number;
+}
+
+interface SearxngResponse {
+  query: string;
+  number_of_results?: number;
+  results: RawVerticalResult[];
+  answers?: any[];
+  corrections?: string[];
+  infoboxes?: any[];
+  suggestions?: string[];
+  // [engine, error] pairs for engines that failed or timed out on this request
+  unresponsive_engines?: Array<[string, string]>;
+}
+
+// Non-2xx answer from a SearXNG instance
+class UpstreamError extends Error {
+  httpStatus: number;
+
+  constructor(message: string, httpStatus: number) {
+    super(message);
+    this.name = 'UpstreamError';
+    this.httpStatus = httpStatus;
+  }
+}
+
+// Send a pipeline error using the shared error response shape
+export function sendSearchError(res: express.Response, error: unknown) {
+  if (error instanceof SearchError) {
+    if (error.details.retry_after) {
+      res.set('Retry-After', String(error.details.retry_after));
+    }
+    return res.status(error.status).json({ error: error.message, ...error.details });
+  }
+
+  console.error('Search request error:', error);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+// Writes one Server-Sent Event
+export type SearchEventEmitter = (event: string, data: unknown) => void;
+
+const STREAM_HEARTBEAT_MS = 15000;
+// Parameters a stream can't honour: it fetches one page per engine, always merges and never uses the cache
+const STREAM_UNSUPPORTED_PARAMS = ['num', 'merge', 'cache'];
+
+/**
+ * Run a streaming search over Server-Sent Events. The stream is only opened on the first event,
+ * so errors raised before it (validation, credits) still get the regular JSON error response.
+ */
+export async function sendSearchStream(
+  res: express.Response,
+  run: (emit: SearchEventEmitter) => Promise<void>
+) {
+  let opened = false;
+  let closed = false;
+  let heartbeat: NodeJS.Timeout | undefined;
+
+  res.on('close', () => {
+    closed = true;
+  });
+
+  const emit: SearchEventEmitter = (event, data) => {
+    if (closed) return;
+
+    if (!opened) {
+      opened = true;
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+      heartbeat = setInterval(() => {
+        if (!closed) res.write(': ping\n\n');
+      }, STREAM_HEARTBEAT_MS);
+    }
+
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    await run(emit);
+  } catch (error) {
+    if (!opened) {
+      return sendSearchError(res, error);
+    }
+
+    if (!(error instanceof SearchError)) {
+      console.error('Search stream error:', error);
+    }
+    emit('error', error instanceof SearchError
+      ? { error: error.message, status: error.status, ...error.details }
+      : { error: 'Internal server error', status: 500 });
+  } finally {
+    if (heartbeat) clearInterval(heartbeat);
+  }
+
+  if (opened && !closed) {
+    res.end();
+  }
 }
 
 export class SearchService {
-  // Validate API key and get key record
-  async validateApiKey(apiKeyHash: string, organizationId: string) {
-    try {
-      const keyRecord = await db.select()
-        .from(apiKeys)
-        .where(and(
-          eq(apiKeys.keyHash, apiKeyHash),
-          eq(apiKeys.organizationId, organizationId),
-          eq(apiKeys.isActive, true)
-        ))
-        .limit(1);
-
-      if (keyRecord.length === 0) {
-        throw new Error('Invalid or inactive API key');
-      }
+  private cacheService = new SearchCacheService();
+  private instanceService = new InstanceService();
+  private mergeService = new ResultMergeService();
+  private verticalService = new VerticalService();
+  private filterService = new ResultFilterService();
+  private localeService = new LocaleService();
+  private engineRegistry = new EngineRegistryService();
+  private pricingService = new PricingService();
+  private creditService = new CreditService();
+  private refundService = new RefundService();
 
-      return keyRecord[0];
-    } catch (error) {
-      console.error('DB Error in validateApiKey:', error);
-      throw new Error('Database connection error. Please try again.');
+  // Parse a list given as an array or a comma separated string
+  parseList(value: unknown): string[] | undefined {
+    const list = Array.isArray(value)
+      ? value
+      : typeof value === 'string' ? value.split(',') : [];
+
+    const items = list
+      .filter((e): e is string => typeof e === 'string')
+      .map(e => e.trim().toLowerCase())
+      .filter(Boolean);
+
+    return items.length > 0 ? items : undefined;
+  }
+
+  // Parse an engine list given as an array or a comma separated string
+  parseEngines(value: unknown): string[] | undefined {
+    return this.parseList(value);
+  }
+
+  /**
+   * Map request parameters (a query string, a JSON body or a batch item) to pipeline options.
+   * Every search entry point goes through here, so they accept the same parameters and defaults.
+   */
+  parseRequest(input: Record<string, any> | undefined): SearchOptions {
+    const {
+      q,
+      query,
+      type,
+      engines,
+      engine,
+      language,
+      pageno,
+      page,
+      time_range,
+      safesearch,
+      category,
+      num,
+      include_domains,
+      exclude_domains,
+      filetype,
+      max_per_domain,
+      merge,
+      cache,
+      country,
+      location,
+      // Legacy engine-specific locale parameters
+      hl,
+      lr,
+      cr,
+      mkt,
+      region,
+      spellcheck,
+      ui_lang
+    } = input || {};
+
+    const legacyLocale = [hl, lr, cr, mkt, region, ui_lang].some(value => value !== undefined);
+
+    return {
+      q: q ?? query,
+      type,
+      engines: this.parseEngines(engines ?? engine),
+      // Keep English as the default unless a country, location or legacy locale parameter picks the language
+      language: language ?? (country || location || legacyLocale ? undefined : 'en'),
+      country,
+      location,
+      pageno: parseInt(pageno ?? page) || 1,
+      time_range,
+      safesearch: safesearch !== undefined ? parseInt(safesearch) : undefined,
+      category,
+      num: num !== undefined ? parseInt(num) : undefined,
+      include_domains: this.parseList(include_domains),
+      exclude_domains: this.parseList(exclude_domains),
+      filetype,
+      max_per_domain: max_per_domain !== undefined ? parseInt(max_per_domain) : undefined,
+      hl,
+      lr,
+      cr,
+      mkt,
+      region,
+      spellcheck,
+      ui_lang,
+      merge: merge === true || merge === 'true' || merge === '1',
+      cache: cache !== false && cache !== 'false',
+    };
+  }
+
+  // Effective result filters of validated options, if any were given
+  private getFilters(options: SearchOptions): ResultFilters | null {
+    const filters: ResultFilters = {
+      include_domains: options.include_domains,
+      exclude_domains: options.exclude_domains,
+      filetype: options.filetype,
+      max_per_domain: options.max_per_domain,
+    };
+    return this.filterService.hasFilters(filters) ? filters : null;
+  }
+
+  // Validate the request and fill in defaults
+  async validateOptions(options: SearchOptions): Promise<SearchOptions> {
+    if (!options.q || typeof options.q !== 'string' || !options.q.trim()) {
+      throw new SearchError('Query parameter "q" is required', 400);
+    }
+
+    if (options.q.length > MAX_QUERY_LENGTH) {
+      throw new SearchError(`Query too long (max ${MAX_QUERY_LENGTH} characters)`, 400);
+    }
+
+    const type = options.type || 'web';
+    if (!SEARCH_TYPES.includes(type)) {
+      throw new SearchError('Invalid search type', 400, { supported_types: SEARCH_TYPES });
+    }
+
+    const vertical = this.verticalService.getVertical(type);
+    if (vertical && options.merge) {
+      throw new SearchError('"merge" is only supported for web search', 400);
+    }
+
+    await this.engineRegistry.load();
+    const engines = options.engines && options.engines.length > 0
+      ? options.engines.map(engine => engine.toLowerCase())
+      : this.engineRegistry.getDefaultEngines(type);
+    if (engines.length === 0) {
+      // Only when the registry has no enabled engine for the type (or couldn't be loaded yet)
+      throw new SearchError(`No engines are available for ${type} search`, 503);
+    }
+    this.validateEngines(engines, type);
+
+    if (options.num !== undefined && (!Number.isInteger(options.num) || options.num < 1 || options.num > MAX_NUM_RESULTS)) {
+      throw new SearchError(`"num" must be an integer between 1 and ${MAX_NUM_RESULTS}`, 400);
+    }
+
+    const { filters, error: filterError } = this.filterService.validate({
+      include_domains: options.include_domains,
+      exclude_domains: options.exclude_domains,
+      filetype: options.filetype,
+      max_per_domain: options.max_per_domain,
+    });
+    if (filterError) {
+      throw new SearchError(filterError, 400);
+    }
+
+    // Repeated query parameters arrive as arrays and JSON bodies may carry any type
+    const invalidLocaleField = LOCALE_FIELDS.find(field => options[field] != null && typeof options[field] !== 'string');
+    if (invalidLocaleField) {
+      throw new SearchError(`"${invalidLocaleField}" must be a string`, 400);
     }
+
+    const locale = this.localeService.resolve(options);
+    this.localeService.validateForEngines(locale, engines);
+    const { location, hl, lr, cr, mkt, region, ui_lang, ...rest } = options;
+
+    return {
+      ...rest,
+      ...filters,
+      language: locale.language,
+      country: locale.country,
+      q: options.q.trim(),
+      type,
+      engines,
+      pageno: options.pageno && options.pageno > 0 ? options.pageno : 1,
+      safesearch: options.safesearch !== undefined && [0, 1, 2].includes(options.safesearch) ? options.safesearch : 1,
+      category: vertical ? vertical.category : options.category || 'general',
+    };
   }
 
-  // Check credit balance
+  // Validate search engines against the registry
+  validateEngines(engines: string[], type: SearchType = 'web') {
+    const supported = this.engineRegistry.getEngines(type).map(engine => engine.code);
+    const invalidEngines = engines.filter(e => !supported.includes(e));
+    if (invalidEngines.length > 0) {
+      throw new SearchError(type === 'web' ? 'Invalid search engines' : `Invalid engines for ${type} search`, 400, {
+        invalid_engines: invalidEngines,
+        supported_engines: supported,
+      });
+    }
+  }
+
+  // Check that the organization has unreserved credits left (a quick check; requests reserve their actual cost)
   async checkCreditBalance(organizationId: string) {
     const credits = await db.select()
       .from(workspaceCredits)
@@ -75,99 +491,848 @@ export class SearchService {
       .limit(1);
 
     const currentCredits = credits[0];
-    if (!currentCredits || (currentCredits.balance || 0) <= 0) {
-      throw new Error('Insufficient credits. Please purchase more credits to continue.');
+    if (!currentCredits || (currentCredits.balance || 0) - currentCredits.reserved <= 0) {
+      throw new SearchError('Insufficient credits. Please purchase more credits to continue.', 402, {
+        balance: currentCredits?.balance || 0,
+      });
     }
 
     return currentCredits;
   }
 
-  // Get credit cost for a search engine
-  getCreditCost(engine: string): number {
-    const creditCosts: Record<string, number> = {
-      'google': 1,
-      'bing': 2,
-      'duckduckgo': 2,
-      'brave': 3
-    };
-    return creditCosts[engine.toLowerCase()] || 1; // Default to 1 if engine not found
+  // Price of a validated request for a given number of upstream pages
+  getPrice(options: SearchOptions, usage: { pages: number; cached: boolean }): PriceBreakdown {
+    return this.pricingService.price(options.type || 'web', options.engines!, usage);
+  }
+
+  // Worst-case credits a request will be charged (i.e. on a cache miss)
+  estimateCost(options: SearchOptions): number {
+    return this.getPrice(options, { pages: this.getMaxPages(options), cached: false }).total;
+  }
+
+  // Upper bound on upstream pages fetched for a request
+  getMaxPages(options: SearchOptions): number {
+    if (!options.num) return 1;
+    return Math.min(MAX_PAGES_PER_REQUEST, Math.ceil(options.num / RESULTS_PER_PAGE) + 1);
   }
 
-  // Deduct credit from organization
-  async deductCredit(organizationId: string, credits: number = 1) {
-    await db.update(workspaceCredits)
+  // Count a request against the API key it was made with
+  async recordApiKeyUsage(apiKeyId: number) {
+    await db.update(apiKeys)
       .set({
-        balance: sql`${workspaceCredits.balance} - ${credits}`,
-        totalUsed: sql`${workspaceCredits.totalUsed} + ${credits}`,
-        updatedAt: new Date()
+        requestCount: sql`${apiKeys.requestCount} + 1`,
       })
-      .where(eq(workspaceCredits.organizationId, organizationId));
+      .where(eq(apiKeys.id, apiKeyId));
   }
 
-  // Update API key usage - REMOVED (no longer tracking requestCount and lastUsed)
-  // async updateApiKeyUsage(apiKeyId: number) {
-  //   await db.update(apiKeys)
-  //     .set({
-  //       requestCount: sql`${apiKeys.requestCount} + 1`,
-  //       lastUsed: new Date()
-  //     })
-  //     .where(eq(apiKeys.id, apiKeyId));
-  // }
-
   // Log search result
   async logSearchResult(
-    apiKeyId: number,
     organizationId: string,
-    query: string,
-    options: SearchOptions,
-    results: SearchResult[],
-    metadata: any,
-    instance: string,
+    engines: string[],
+    resultsCount: number,
     status: string,
-    errorMessage?: string,
-    req?: express.Request,
-    responseTime?: number
+    responseTime?: number,
+    upstream: {
+      instanceUsed?: string;
+      instancesTried?: InstanceAttempt[];
+      pricing?: PriceBreakdown;
+      refund?: CreditRefund | null;
+    } = {}
   ) {
-    await db.insert(serpSearchResults).values({
-      organizationId,
-      searchEngine: (options.engines && options.engines.length === 1) ? options.engines[0] : 'multiple',
-      resultsCount: results.length,
-      status,
-      responseTime,
+    try {
+      await db.insert(serpSearchResults).values({
+        organizationId,
+        searchEngine: engines.length === 1 ? engines[0] : 'multiple',
+        resultsCount,
+        status,
+        responseTime,
+        instanceUsed: upstream.instanceUsed,
+        instancesTried: upstream.instancesTried,
+        creditsCharged: upstream.pricing ? upstream.pricing.total - (upstream.refund?.amount || 0) : 0,
+        pricing: upstream.pricing,
+      });
+    } catch (error) {
+      console.error('Failed to log search result:', error);
+    }
+  }
+
+  // Fetch from the prioritized instance list, failing over on timeouts, 5xx and 429.
+  // Instances that are out of outbound tokens are skipped in favor of the next one by priority.
+  async fetchWithFailover(params: URLSearchParams): Promise<{ data: SearxngResponse; instance: string; attempts: InstanceAttempt[] }> {
+    const candidates = await this.instanceService.getCandidateInstances();
+    const attempts: InstanceAttempt[] = [];
+    const saturated: SearxngInstance[] = [];
+
+    for (const candidate of candidates) {
+      if (attempts.length >= SEARXNG_MAX_ATTEMPTS) break;
+      if (this.instanceService.isCircuitOpen(candidate.url)) continue;
+
+      if (!this.instanceService.tryAcquire(candidate)) {
+        saturated.push(candidate);
+        continue;
+      }
+
+      const attemptStart = Date.now();
+      try {
+        const data = await this.fetchFromSearxng(candidate.url, params);
+        this.instanceService.recordSuccess(candidate.url);
+        attempts.push({ instance: candidate.url, status: 'success', response_time: Date.now() - attemptStart });
+        return { data, instance: candidate.url, attempts };
+      } catch (error) {
+        const httpStatus = error instanceof UpstreamError ? error.httpStatus : undefined;
+        attempts.push({
+          instance: candidate.url,
+          status: 'error',
+          http_status: httpStatus,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          response_time: Date.now() - attemptStart,
+        });
+
+        const retryable = httpStatus === undefined || httpStatus >= 500 || httpStatus === 429;
+        if (retryable) {
+          this.instanceService.recordFailure(candidate.url);
+          continue;
+        }
+
+        // The request itself was rejected; another instance would reject it too
+        throw new SearchError('Failed to fetch search results', 502, {
+          message: attempts[attempts.length - 1].error,
+          instances_tried: attempts,
+        });
+      }
+    }
+
+    // Nothing could be sent because every available instance is at its rate limit
+    if (attempts.length === 0 && saturated.length > 0) {
+      const retryAfter = Math.max(1, Math.min(...saturated.map(instance => this.instanceService.getRetryAfterSeconds(instance))));
+      throw new SearchError('All search instances are at capacity, please retry later', 503, {
+        retry_after: retryAfter,
+      });
+    }
+
+    throw new SearchError('Failed to fetch search results', 502, {
+      message: attempts.length > 0
+        ? `All SearXNG instances failed (${attempts.length} tried)`
+        : 'No SearXNG instance available',
+      instances_tried: attempts,
     });
   }
 
+  // Build SearXNG query parameters from validated options
+  buildSearxngParams(options: SearchOptions): URLSearchParams {
+    const engines = options.engines || this.engineRegistry.getDefaultEngines(options.type || 'web');
+    const filters = this.getFilters(options);
+    const operators = filters && this.filterService.supportsOperators(engines)
+      ? this.filterService.buildOperators(filters)
+      : '';
+
+    const params = new URLSearchParams({
+      q: operators ? `${options.q} ${operators}` : options.q,
+      format: 'json',
+      safesearch: String(options.safesearch ?? 1),
+      pageno: String(options.pageno || 1),
+      engines: engines.join(','),
+    });
+
+    const language = this.localeService.toSearxngLanguage(options);
+    if (language) params.append('language', language);
+    if (options.time_range && options.time_range !== 'all') params.append('time_range', options.time_range);
+    if (options.category) params.append('categories', options.category);
+
+    if (options.spellcheck !== undefined) params.append('spellcheck', String(options.spellcheck));
+
+    return params;
+  }
+
+  // Fetch raw results from a SearXNG instance
+  async fetchFromSearxng(instance: string, params: URLSearchParams): Promise<SearxngResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), SEARXNG_TIMEOUT_MS);
+
+    try {
+      const response = await fetch(`${instance}/search?${params}`, {
+        headers: {
+          'User-Agent': 'SERP-API/1.0 (+https://yourdomain.com)',
+          'Accept': 'application/json',
+        },
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        throw new UpstreamError(`SearXNG API error: ${response.status} ${response.statusText}`, response.status);
+      }
+
+      return await response.json() as SearxngResponse;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
   // Process search results from SearXNG response
-  processSearchResults(searxngResults: any[]): SearchResult[] {
-    return searxngResults.map((result, index) => ({
+  processSearchResults(searxngResults: SearxngResponse['results'], engines: string[] = []): SearchResult[] {
+    return (searxngResults || []).map((result, index) => ({
       title: result.title || '',
       url: result.url || '',
       snippet: result.content || result.snippet || '',
       position: index + 1,
-      engine: result.engine || 'unknown',
+      engine: result.engine || engines[0] || 'unknown',
       published_date: result.publishedDate || null,
     }));
   }
 
-  // Validate search engines
-  validateEngines(engines: string[], supportedEngines: string[]) {
-    if (!engines) return;
+  /**
+   * Fetch and normalize results. With `num`, consecutive pages are fetched from `pageno` onwards,
+   * deduplicated across pages and renumbered, stopping once enough results are collected or a
+   * page adds nothing new. A failure after the first page returns what was collected so far.
+   */
+  private async fetchPayload(options: SearchOptions): Promise<{
+    payload: SearchPayload;
+    attempts: InstanceAttempt[];
+    unresponsive: SearchOutcome['unresponsive'];
+  }> {
+    const engines = options.engines!;
+    const firstPage = options.pageno || 1;
+    const maxPages = this.getMaxPages(options);
 
-    const invalidEngines = engines.filter(e => !supportedEngines.includes(e));
-    if (invalidEngines.length > 0) {
-      throw new Error(`Invalid search engines: ${invalidEngines.join(', ')}. Supported: ${supportedEngines.join(', ')}`);
+    const attempts: InstanceAttempt[] = [];
+    const unresponsive = new Map<string, number>();
+    const seen = new Set<string>();
+    const domainCounts = new Map<string, number>();
+    const results: Array<SearchResult | VerticalResult> = [];
+    let payload: SearchPayload | undefined;
+    let duplicatesRemoved: number | undefined;
+    let filteredOut = 0;
+
+    const filters = this.getFilters(options);
+    const keep = <T extends SearchResult | VerticalResult>(pageResults: T[]): T[] => {
+      if (!filters) return pageResults;
+      const filtered = this.filterService.apply(pageResults, filters, domainCounts);
+      filteredOut += filtered.removed;
+      return filtered.results;
+    };
+
+    for (let page = firstPage; page < firstPage + maxPages; page++) {
+      let data: SearxngResponse;
+      let instance: string;
+
+      try {
+        const fetched = await this.fetchWithFailover(this.buildSearxngParams({ ...options, pageno: page }));
+        ({ data, instance } = fetched);
+        attempts.push(...fetched.attempts);
+      } catch (error) {
+        if (!payload) throw error;
+        if (error instanceof SearchError && error.details.instances_tried) {
+          attempts.push(...error.details.instances_tried);
+        }
+        console.warn(`Stopped paging at page ${page} for "${options.q}":`, error instanceof Error ? error.message : error);
+        break;
+      }
+
+      this.countUnresponsive(data, engines, unresponsive);
+
+      const vertical = this.verticalService.getVertical(options.type);
+      let pageResults: Array<SearchResult | VerticalResult>;
+      if (vertical) {
+        pageResults = this.verticalService.normalize(options.type as keyof typeof SEARCH_VERTICALS, data.results, engines);
+      } else if (options.merge) {
+        const merged = this.mergeService.merge(data.results || [], engines[0]);
+        pageResults = merged.results;
+        duplicatesRemoved = (duplicatesRemoved || 0) + merged.duplicatesRemoved;
+      } else {
+        pageResults = this.processSearchResults(data.results, engines);
+      }
+
+      if (!payload) {
+        payload = {
+          results,
+          number_of_results: data.number_of_results || 0,
+          answers: data.answers || [],
+          corrections: data.corrections || [],
+          infoboxes: data.infoboxes || [],
+          suggestions: data.suggestions || [],
+          instance,
+          pages: 0,
+        };
+      } else {
+        payload.suggestions = [...new Set([...payload.suggestions, ...(data.suggestions || [])])];
+      }
+      payload.pages!++;
+
+      // Single-page requests are returned as SearXNG ordered them
+      if (!options.num) {
+        keep(pageResults).forEach(result => results.push({ ...result, position: results.length + 1 }));
+        break;
+      }
+
+      const unseen: Array<SearchResult | VerticalResult> = [];
+      for (const result of pageResults) {
+        // Several images can come from the same page, so images are deduplicated by the image itself
+        const key = this.mergeService.canonicalizeUrl('image_url' in result ? result.image_url : result.url);
+        if (seen.has(key)) {
+          duplicatesRemoved = (duplicatesRemoved || 0) + 1;
+          continue;
+        }
+        seen.add(key);
+        unseen.push(result);
+      }
+      keep(unseen).forEach(result => results.push({ ...result, position: results.length + 1 }));
+
+      // A page with nothing new means the engines ran out; a page emptied by filters does not
+      if (unseen.length === 0 || results.length >= options.num) break;
+    }
+
+    if (options.num) {
+      results.splice(options.num);
+    }
+
+    payload!.number_of_results = payload!.number_of_results || results.length;
+    payload!.duplicates_removed = duplicatesRemoved;
+    if (filters) payload!.filtered_out = filteredOut;
+    return { payload: payload!, attempts, unresponsive };
+  }
+
+  // Tally requested engines SearXNG reported as unresponsive, one per page they failed on
+  private countUnresponsive(data: SearxngResponse, engines: string[], unresponsive: Map<string, number>) {
+    const failed = new Set((data.unresponsive_engines || [])
+      .map(([engine]) => String(engine).toLowerCase())
+      .filter(engine => engines.includes(engine)));
+
+    failed.forEach(engine => unresponsive.set(engine, (unresponsive.get(engine) || 0) + 1));
+  }
+
+  // Build the public response from a (fresh or cached) payload
+  private buildResponse(
+    options: SearchOptions,
+    payload: SearchPayload,
+    extra: {
+      id: string;
+      startTime: number;
+      responseTime: number;
+      instancesTried: InstanceAttempt[];
+      cached: boolean;
+      pricing: PriceBreakdown;
+      refund?: CreditRefund | null;
+      balance: number;
+    }
+  ): SearchResponse {
+    const filters = this.getFilters(options);
+
+    return {
+      id: extra.id,
+      query: options.q,
+      engines: options.engines!,
+      type: options.type || 'web',
+      results: payload.results,
+      answers: payload.answers,
+      corrections: payload.corrections,
+      infoboxes: payload.infoboxes,
+      suggestions: payload.suggestions,
+      metadata: {
+        number_of_results: payload.number_of_results,
+        response_time: extra.responseTime,
+        total_response_time: Date.now() - extra.startTime,
+        timestamp: new Date().toISOString(),
+        page: options.pageno!,
+        language: options.language,
+        country: options.country,
+        safe_search: options.safesearch,
+        time_range: options.time_range,
+        category: options.category,
+        merged: !!options.merge,
+        duplicates_removed: payload.duplicates_removed,
+        ...(filters && {
+          filters: {
+            ...filters,
+            applied_as_operators: this.filterService.supportsOperators(options.engines!)
+              && this.filterService.buildOperators(filters) !== '',
+            filtered_out: payload.filtered_out || 0,
+          },
+        }),
+        instance_used: payload.instance,
+        instances_tried: extra.instancesTried,
+        cached: extra.cached,
+        api_version: '1.0',
+        credits: {
+          used_for_request: extra.pricing.total - (extra.refund?.amount || 0),
+          balance: extra.balance,
+          ...(options.num && !extra.cached && {
+            pages_fetched: extra.pricing.pages,
+            cost_per_page: extra.pricing.cost_per_page,
+          }),
+          ...(extra.refund && {
+            refunded: extra.refund.amount,
+            refund_reason: extra.refund.reason,
+          }),
+          breakdown: extra.pricing,
+        },
+      },
+    };
+  }
+
+  // Reserve the worst-case cost of a request; nothing is reserved when the caller holds the reservation
+  private async reserveCredits(context: SearchContext, amount: number): Promise<CreditReservation | null> {
+    if (context.deferCharge) return null;
+    return this.creditService.reserve(context.organizationId, amount);
+  }
+
+  // Settle a reservation at the actual price less any refund; failures are logged but never fail the search
+  private async charge(
+    reservation: CreditReservation | null,
+    context: SearchContext,
+    credits: number,
+    reference: ChargeReference,
+    refund?: CreditRefund | null
+  ): Promise<number> {
+    if (!reservation) {
+      return this.creditService.getBalance(context.organizationId);
+    }
+
+    try {
+      return await this.creditService.settle(reservation, credits, reference, refund);
+    } catch (creditError) {
+      console.error('❌ Failed to settle credits:', creditError);
+      return reservation.balance;
+    }
+  }
+
+  // Hand a reservation back after a failed request
+  private async releaseCredits(reservation: CreditReservation | null) {
+    if (!reservation) return;
+
+    try {
+      await this.creditService.release(reservation);
+    } catch (creditError) {
+      console.error('❌ Failed to release credit reservation:', creditError);
+    }
+  }
+
+  // Cached payload for a request, unless the request opted out of the cache
+  private async getCachedPayload(options: SearchOptions): Promise<SearchPayload | null> {
+    if (options.cache === false) return null;
+
+    const { cache, ...cacheKeyInput } = options;
+    return this.cacheService.get<SearchPayload>(this.cacheService.buildKey(cacheKeyInput));
+  }
+
+  /**
+   * Run a search end to end: validate → cache → reserve → resolve instance → fetch → normalize → settle → log.
+   * Both public search routes go through here so they behave and respond identically.
+   */
+  async search(rawOptions: SearchOptions, context: SearchContext): Promise<SearchResponse> {
+    const startTime = Date.now();
+    const options = await this.validateOptions(rawOptions);
+
+    // A cache hit only needs its cache-hit price; a miss holds enough for every page it may fetch upstream
+    const cached = await this.getCachedPayload(options);
+    const required = cached ? this.getPrice(options, { pages: 0, cached: true }).total : this.estimateCost(options);
+    const reservation = await this.reserveCredits(context, required);
+
+    try {
+      return await this.executeSearch(options, context, reservation, startTime, cached);
+    } catch (error) {
+      await this.releaseCredits(reservation);
+      throw error;
     }
   }
 
-  // Get supported search engines
-  getSupportedEngines() {
-    return [
-      { name: 'google', cost: 1, enabled: true },
-      { name: 'bing', cost: 1, enabled: true },
-      { name: 'duckduckgo', cost: 1, enabled: true },
-      { name: 'brave', cost: 1, enabled: true },
-      { name: 'startpage', cost: 1, enabled: true },
-      { name: 'yahoo', cost: 1, enabled: true },
-    ];
+  private async executeSearch(
+    options: SearchOptions,
+    context: SearchContext,
+    reservation: CreditReservation | null,
+    startTime: number,
+    cached: SearchPayload | null
+  ): Promise<SearchResponse> {
+    const engines = options.engines!;
+    const searchId = crypto.randomUUID();
+    const reference: ChargeReference = {
+      reason: `${options.type || 'web'} search`,
+      referenceType: 'search',
+      referenceId: searchId,
+    };
+
+    if (cached) {
+      const responseTime = Date.now() - startTime;
+      const pricing = this.getPrice(options, { pages: 0, cached: true });
+      const balance = await this.charge(reservation, context, pricing.total, reference);
+
+      if (context.apiKeyId) {
+        await this.recordApiKeyUsage(context.apiKeyId);
+      }
+      // No instance served a cache hit, so it's kept out of the per-instance stats (pricing marks it cached)
+      await this.logSearchResult(context.organizationId, engines, cached.results.length, 'success', responseTime, {
+        pricing,
+      });
+
+      return this.buildResponse(options, cached, {
+        id: searchId,
+        startTime,
+        responseTime,
+        instancesTried: [],
+        cached: true,
+        pricing,
+        balance,
+      });
+    }
+
+    let payload: SearchPayload;
+    let attempts: InstanceAttempt[];
+    let unresponsive: SearchOutcome['unresponsive'];
+
+    try {
+      ({ payload, attempts, unresponsive } = await this.fetchPayload(options));
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      console.error('SearXNG fetch error:', error);
+
+      // Do not deduct credits for failed requests, but count them against the key
+      await this.logSearchResult(context.organizationId, engines, 0, 'error', responseTime, {
+        instancesTried: error instanceof SearchError ? error.details.instances_tried : undefined,
+      });
+      if (context.apiKeyId) {
+        await this.recordApiKeyUsage(context.apiKeyId);
+      }
+
+      throw error;
+    }
+
+    const responseTime = Date.now() - startTime;
+    const results = payload.results;
+    const instance = payload.instance;
+
+    // Empty or degraded responses are usually transient upstream blocks, so don't cache them
+    if (results.length > 0 && unresponsive.size === 0) {
+      const { cache, ...cacheKeyInput } = options;
+      await this.cacheService.set(this.cacheService.buildKey(cacheKeyInput), options.q, payload);
+    }
+
+    // Charge every engine for every upstream page fetched, handing back what unresponsive engines cost
+    const pricing = this.getPrice(options, { pages: payload.pages || 1, cached: false });
+    const refund = this.refundService.assess(pricing, { results: results.length, unresponsive });
+    const balance = await this.charge(reservation, context, pricing.total, reference, refund);
+
+    if (context.apiKeyId) {
+      await this.recordApiKeyUsage(context.apiKeyId);
+    }
+    await this.logSearchResult(context.organizationId, engines, results.length, 'success', responseTime, {
+      instanceUsed: instance,
+      instancesTried: attempts,
+      pricing,
+      refund,
+    });
+
+    return this.buildResponse(options, payload, {
+      id: searchId,
+      startTime,
+      responseTime,
+      instancesTried: attempts,
+      cached: false,
+      pricing,
+      refund,
+      balance,
+    });
   }
-}
\ No newline at end of file
+
+  /**
+   * Stream a search: one upstream request per engine, each engine's normalized results emitted
+   * as soon as it answers (`engine` / `engine_error`), then a `done` event with the merged results,
+   * metadata and credits. Streams bypass the result cache and are charged like a regular single-page search.
+   */
+  async searchStream(rawOptions: SearchOptions, context: SearchContext, emit: SearchEventEmitter): Promise<void> {
+    const startTime = Date.now();
+    const options = await this.validateOptions(rawOptions);
+
+    if (options.type !== 'web') {
+      throw new SearchError('Streaming is only supported for web search', 400);
+    }
+
+    const reservation = await this.reserveCredits(context, this.estimateCost(options));
+
+    try {
+      await this.executeSearchStream(options, context, reservation, startTime, emit);
+    } catch (error) {
+      await this.releaseCredits(reservation);
+      throw error;
+    }
+  }
+
+  // Refuse stream parameters that would otherwise be ignored (and, for `num`, reserved for but never fetched)
+  checkStreamParams(input: Record<string, unknown> | undefined) {
+    const unsupported = STREAM_UNSUPPORTED_PARAMS.filter(param => input?.[param] !== undefined);
+    if (unsupported.length > 0) {
+      throw new SearchError(`Not supported when streaming: ${unsupported.join(', ')}`, 400, { unsupported });
+    }
+  }
+
+  private async executeSearchStream(
+    options: SearchOptions,
+    context: SearchContext,
+    reservation: CreditReservation | null,
+    startTime: number,
+    emit: SearchEventEmitter
+  ): Promise<void> {
+    const engines = options.engines!;
+    const searchId = crypto.randomUUID();
+    const reference: ChargeReference = {
+      reason: `${options.type || 'web'} search`,
+      referenceType: 'search',
+      referenceId: searchId,
+    };
+
+    emit('start', { query: options.q, engines, timestamp: new Date().toISOString() });
+
+    const filters = this.getFilters(options);
+    const upstream: Array<{ engine: string; data: SearxngResponse; instance: string }> = [];
+    const attempts: InstanceAttempt[] = [];
+    const unresponsive = new Map<string, number>();
+    const engineStatus: Array<{ engine: string; status: 'success' | 'error'; results: number; response_time: number; error?: string }> = [];
+
+    await Promise.all(engines.map(async engine => {
+      const engineStart = Date.now();
+
+      try {
+        const fetched = await this.fetchWithFailover(this.buildSearxngParams({ ...options, engines: [engine] }));
+        const processed = this.processSearchResults(fetched.data.results, [engine]);
+        const results = filters ? this.filterService.apply(processed, filters).results : processed;
+        const responseTime = Date.now() - engineStart;
+
+        upstream.push({ engine, data: fetched.data, instance: fetched.instance });
+        attempts.push(...fetched.attempts);
+        this.countUnresponsive(fetched.data, [engine], unresponsive);
+        engineStatus.push({ engine, status: 'success', results: results.length, response_time: responseTime });
+
+        emit('engine', { engine, results, instance_used: fetched.instance, response_time: responseTime });
+      } catch (error) {
+        const responseTime = Date.now() - engineStart;
+        const message = error instanceof Error ? error.message : 'Unknown error';
+
+        if (error instanceof SearchError && error.details.instances_tried) {
+          attempts.push(...error.details.instances_tried);
+        }
+        engineStatus.push({ engine, status: 'error', results: 0, response_time: responseTime, error: message });
+        unresponsive.set(engine, 1);
+
+        emit('engine_error', {
+          engine,
+          error: message,
+          status: error instanceof SearchError ? error.status : 500,
+          response_time: responseTime,
+        });
+      }
+    }));
+
+    const responseTime = Date.now() - startTime;
+
+    if (upstream.length === 0) {
+      // Do not deduct credits for failed requests, but count them against the key
+      await this.logSearchResult(context.organizationId, engines, 0, 'error', responseTime, { instancesTried: attempts });
+      if (context.apiKeyId) {
+        await this.recordApiKeyUsage(context.apiKeyId);
+      }
+
+      throw new SearchError('Failed to fetch search results', 502, {
+        message: 'Every engine failed',
+        instances_tried: attempts,
+      });
+    }
+
+    // Merge in the requested engine order so ties resolve the same way as a regular search
+    upstream.sort((a, b) => engines.indexOf(a.engine) - engines.indexOf(b.engine));
+    const merged = this.mergeService.merge(
+      upstream.flatMap(({ engine, data }) => (data.results || []).map(result => ({ ...result, engine: result.engine || engine })))
+    );
+    const filtered = filters ? this.filterService.apply(merged.results, filters) : { results: merged.results, removed: 0 };
+    const results = filtered.results.map((result, index) => ({ ...result, position: index + 1 }));
+    const duplicatesRemoved = merged.duplicatesRemoved;
+
+    const instances = [...new Set(upstream.map(item => item.instance))];
+    const payload: SearchPayload = {
+      results,
+      number_of_results: results.length,
+      duplicates_removed: duplicatesRemoved,
+      filtered_out: filters ? filtered.removed : undefined,
+      answers: upstream.flatMap(item => item.data.answers || []),
+      corrections: [...new Set(upstream.flatMap(item => item.data.corrections || []))],
+      infoboxes: upstream.flatMap(item => item.data.infoboxes || []),
+      suggestions: [...new Set(upstream.flatMap(item => item.data.suggestions || []))],
+      instance: instances.join(', '),
+    };
+
+    // Charge for the request; every engine was queried once, and engines that failed are refunded
+    const pricing = this.getPrice(options, { pages: 1, cached: false });
+    const refund = this.refundService.assess(pricing, { results: results.length, unresponsive });
+    const balance = await this.charge(reservation, context, pricing.total, reference, refund);
+
+    if (context.apiKeyId) {
+      await this.recordApiKeyUsage(context.apiKeyId);
+    }
+    await this.logSearchResult(context.organizationId, engines, results.length, 'success', responseTime, {
+      instanceUsed: instances.length === 1 ? instances[0] : undefined,
+      instancesTried: attempts,
+      pricing,
+      refund,
+    });
+
+    emit('done', {
+      ...this.buildResponse({ ...options, merge: true }, payload, {
+        id: searchId,
+        startTime,
+        responseTime,
+        instancesTried: attempts,
+        cached: false,
+        pricing,
+        refund,
+        balance,
+      }),
+      engine_status: engineStatus,
+    });
+  }
+
+  /**
+   * Price a search without running it. A result already in the cache is quoted at the cache-hit price;
+   * otherwise the quote covers the most pages the request may fetch. Nothing is charged.
+   */
+  async quote(rawOptions: SearchOptions, context: SearchContext) {
+    const options = await this.validateOptions(rawOptions);
+
+    const cached = await this.getCachedPayload(options) !== null;
+    const pricing = this.getPrice(options, { pages: this.getMaxPages(options), cached });
+    const [credits] = await db.select({ balance: workspaceCredits.balance, reserved: workspaceCredits.reserved })
+      .from(workspaceCredits)
+      .where(eq(workspaceCredits.organizationId, context.organizationId))
+      .limit(1);
+    const balance = credits?.balance || 0;
+    const available = Math.max(0, balance - (credits?.reserved || 0));
+
+    return {
+      query: options.q,
+      type: options.type,
+      engines: options.engines,
+      credits: {
+        required: pricing.total,
+        balance,
+        available,
+        // The quoted price (what a search would reserve) against credits not held by in-flight requests
+        sufficient: available > 0 && available >= pricing.total,
+        breakdown: pricing,
+      },
+    };
+  }
+
+  /**
+   * Run many searches through the pipeline with bounded concurrency.
+   * Items are validated and priced individually; one failing item never fails the batch.
+   * The successful items are settled in one charge, recorded against `reference` when given.
+   * `beforeSettle` runs with the item results before anything is charged (e.g. to store them);
+   * when it throws, the reservation is released and nothing is charged.
+   */
+  async searchBatch(
+    items: SearchOptions[],
+    context: SearchContext,
+    options: {
+      reference?: Omit<ChargeReference, 'reason'>;
+      beforeSettle?: (results: BatchItemResult[]) => Promise<void>;
+    } = {}
+  ): Promise<BatchResponse> {
+    const { reference, beforeSettle } = options;
+
+    if (items.length > BATCH_MAX_ITEMS) {
+      throw new SearchError(`Too many queries in batch (max ${BATCH_MAX_ITEMS})`, 400);
+    }
+
+    // Items that fail validation are reported individually and never charged
+    const prepared = await Promise.all(items.map(async (item, index) => {
+      try {
+        return { index, options: await this.validateOptions(item) };
+      } catch (error) {
+        return { index, error };
+      }
+    }));
+
+    // Reserve the whole batch up front; items run against this reservation and it is settled once at the end
+    const required = prepared.reduce((sum, item) => sum + (item.options ? this.estimateCost(item.options) : 0), 0);
+    // Nothing is reserved when no item is billable (e.g. every item failed validation)
+    const reservation = context.deferCharge || required === 0
+      ? null
+      : await this.creditService.reserve(context.organizationId, required, BATCH_RESERVATION_TTL_MS);
+    const itemContext: SearchContext = { ...context, deferCharge: true };
+    const batchId = crypto.randomUUID();
+
+    const results: BatchItemResult[] = new Array(prepared.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < prepared.length) {
+        const item = prepared[next++];
+
+        try {
+          if (!item.options) throw item.error;
+          const response = await this.search(item.options, itemContext);
+          results[item.index] = { index: item.index, status: 'success', response };
+        } catch (error) {
+          results[item.index] = {
+            index: item.index,
+            status: 'error',
+            error: error instanceof SearchError
+              ? { message: error.message, status: error.status, ...error.details }
+              : { message: 'Internal server error', status: 500 },
+          };
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(BATCH_CONCURRENCY, prepared.length) }, worker));
+
+    if (beforeSettle) {
+      try {
+        await beforeSettle(results);
+      } catch (error) {
+        await this.releaseCredits(reservation);
+        throw error;
+      }
+    }
+
+    const succeeded = results.filter(item => item.status === 'success');
+    const used = succeeded.reduce((sum, item) => sum + item.response!.metadata.credits.used_for_request, 0);
+    const refunded = succeeded.reduce((sum, item) => sum + (item.response!.metadata.credits.refunded || 0), 0);
+    const balance = await this.charge(reservation, context, used + refunded, {
+      reason: `Batch of ${prepared.length} searches`,
+      referenceType: reference?.referenceType || 'batch',
+      referenceId: reference?.referenceId || batchId,
+    }, refunded > 0 ? { amount: refunded, reason: `Unresponsive engines in batch of ${prepared.length} searches` } : null);
+
+    return {
+      id: batchId,
+      total: results.length,
+      succeeded: succeeded.length,
+      failed: results.length - succeeded.length,
+      credits: {
+        used,
+        refunded,
+        balance,
+      },
+      items: results,
+    };
+  }
+
+  // Engines available per search type, as served by the /engines endpoints
+  async getSupportedEngines() {
+    await this.engineRegistry.load();
+
+    const describe = (type: SearchType) => ({
+      engines: this.engineRegistry.getEngines(type).map(engine => ({
+        code: engine.code,
+        name: engine.name,
+        cost: engine.cost,
+        default: engine.isDefault,
+      })),
+      default_engines: this.engineRegistry.getDefaultEngines(type),
+    });
+
+    return {
+      ...describe('web'),
+      verticals: Object.fromEntries(
+        Object.entries(SEARCH_VERTICALS).map(([type, vertical]) => [type, { ...vertical, ...describe(type as SearchType) }])
+      ),
+    };
+  }
+}
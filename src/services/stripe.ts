@@ -2,10 +2,10 @@ import Stripe from 'stripe';
 import { db } from '../db/index';
 import { 
   stripePaymentIntents, 
-  creditPurchases, 
-  workspaceCredits
+  creditPurchases
 } from '../db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, gte, inArray, sql } from 'drizzle-orm';
+import { CreditService } from './creditService';
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('STRIPE_SECRET_KEY environment variable is required');
@@ -15,6 +15,8 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: '2025-08-27.basil',
 });
 
+const creditService = new CreditService();
+
 export interface CreditPlan {
   id: string;
   name: string;
@@ -141,14 +143,15 @@ export class StripeService {
   }
 
   /**
-   * Handle successful payment webhook from Stripe
+   * Handle successful payment webhook from Stripe.
+   * Returns whether this call credited the purchase (false when it was already credited).
    */
   static async handlePaymentSuccess(
     paymentIntentId: string,
     organizationId?: string,
     creditsOverride?: number,
     discountPercentOverride?: number
-  ): Promise<void> {
+  ): Promise<boolean> {
     try {
       // Get payment intent from Stripe
       const stripePaymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
@@ -173,56 +176,48 @@ export class StripeService {
       const finalCredits = creditsOverride || storedIntent.creditsRequested;
       const finalDiscountPercent = discountPercentOverride || storedIntent.discountPercent;
 
-      // Check if already processed
-      const existingPurchase = await db
-        .select()
-        .from(creditPurchases)
-        .where(eq(creditPurchases.paymentId, paymentIntentId))
-        .limit(1);
+      // Record the purchase and credit it through the ledger in one transaction. The stored intent is
+      // locked first, so an auto-recharge and its webhook can't both credit the same payment.
+      const balance = await db.transaction(async tx => {
+        await tx.select({ id: stripePaymentIntents.id })
+          .from(stripePaymentIntents)
+          .where(eq(stripePaymentIntents.paymentIntentId, paymentIntentId))
+          .for('update');
 
-      if (existingPurchase.length > 0) {
-        console.log(`Payment ${paymentIntentId} already processed`);
-        return;
-      }
+        const existingPurchase = await tx
+          .select({ id: creditPurchases.id })
+          .from(creditPurchases)
+          .where(eq(creditPurchases.paymentId, paymentIntentId))
+          .limit(1);
 
-      // Create credit purchase record
-      await db.insert(creditPurchases).values({
-        organizationId: finalOrganizationId,
-        amount: storedIntent.amount,
-        credits: finalCredits,
-        paymentMethod: 'stripe',
-        paymentId: paymentIntentId,
-        status: 'completed',
-      });
+        if (existingPurchase.length > 0) {
+          return null;
+        }
 
-      // Update workspace credits
-      const [currentCredits] = await db
-        .select()
-        .from(workspaceCredits)
-        .where(eq(workspaceCredits.organizationId, finalOrganizationId))
-        .limit(1);
+        await tx.insert(creditPurchases).values({
+          organizationId: finalOrganizationId,
+          amount: storedIntent.amount,
+          credits: finalCredits,
+          paymentMethod: 'stripe',
+          paymentId: paymentIntentId,
+          status: 'completed',
+        });
 
-      if (currentCredits) {
-        // Update existing credits
-        await db
-          .update(workspaceCredits)
-          .set({
-            balance: (currentCredits.balance ?? 0) + finalCredits,
-            totalPurchased: (currentCredits.totalPurchased ?? 0) + finalCredits,
-            lastPurchase: new Date(),
-            updatedAt: new Date(),
-          })
-          .where(eq(workspaceCredits.organizationId, finalOrganizationId));
-      } else {
-        // Create new credits record
-        await db.insert(workspaceCredits).values({
+        return creditService.applyEntry(tx, {
           organizationId: finalOrganizationId,
-          balance: finalCredits,
-          totalPurchased: finalCredits,
-          totalUsed: 0,
-          lastPurchase: new Date(),
+          amount: finalCredits,
+          type: 'purchase',
+          reason: storedIntent.source === 'auto_recharge' ? 'Auto-recharge' : 'Credit purchase',
+          referenceType: 'payment_intent',
+          referenceId: paymentIntentId,
         });
+      });
+
+      if (balance === null) {
+        console.log(`Payment ${paymentIntentId} already processed`);
+        return false;
       }
+      creditService.notifyBalance(finalOrganizationId, balance);
 
       // Update payment intent status
       await db
@@ -234,12 +229,188 @@ export class StripeService {
         .where(eq(stripePaymentIntents.paymentIntentId, paymentIntentId));
 
       console.log(`✅ Successfully processed payment ${paymentIntentId} for ${finalCredits} credits (${finalDiscountPercent}% discount) for org ${finalOrganizationId}`);
+      return true;
     } catch (error) {
       console.error('Failed to handle payment success:', error);
       throw error;
     }
   }
 
+  /**
+   * Create a Stripe customer to save an organization's payment method on
+   */
+  static async createCustomer(organizationId: string): Promise<string> {
+    const customer = await stripe.customers.create({
+      metadata: { organizationId },
+    });
+    return customer.id;
+  }
+
+  /**
+   * Create a Setup Intent so the frontend can save a card for off-session auto-recharge
+   */
+  static async createSetupIntent(organizationId: string, customerId: string): Promise<{
+    clientSecret: string;
+    setupIntentId: string;
+  }> {
+    try {
+      const setupIntent = await stripe.setupIntents.create({
+        customer: customerId,
+        usage: 'off_session',
+        metadata: { organizationId },
+      });
+
+      return {
+        clientSecret: setupIntent.client_secret!,
+        setupIntentId: setupIntent.id,
+      };
+    } catch (error) {
+      console.error('Failed to create Stripe setup intent:', error);
+      throw new Error('Failed to create setup intent');
+    }
+  }
+
+  /**
+   * Detach a saved payment method from its customer
+   */
+  static async detachPaymentMethod(paymentMethodId: string): Promise<void> {
+    await stripe.paymentMethods.detach(paymentMethodId);
+  }
+
+  /**
+   * Charge a saved payment method off-session for an auto-recharge and credit it right away when it
+   * succeeds; a `processing` payment is credited by the payment_intent.succeeded webhook once it clears.
+   * `credited` tells whether this call credited it. Throws with Stripe's message when the payment fails
+   * (declined, authentication required, ...).
+   */
+  static async chargeSavedPaymentMethod(
+    organizationId: string,
+    amountUsd: number,
+    customerId: string,
+    paymentMethodId: string
+  ): Promise<{ paymentIntentId: string; credits: number; credited: boolean }> {
+    const { credits, discountPercent } = this.calculateCredits(amountUsd);
+    const amountCents = Math.round(amountUsd * 100);
+
+    let paymentIntent: Stripe.PaymentIntent;
+    try {
+      paymentIntent = await stripe.paymentIntents.create({
+        amount: amountCents,
+        currency: 'usd',
+        customer: customerId,
+        payment_method: paymentMethodId,
+        off_session: true,
+        confirm: true,
+        metadata: {
+          organizationId,
+          credits: credits.toString(),
+          discountPercent: discountPercent.toString(),
+          autoRecharge: 'true',
+        },
+      });
+    } catch (error) {
+      console.error('Auto-recharge payment failed:', error);
+      throw new Error(error instanceof Stripe.errors.StripeError ? error.message : 'Auto-recharge payment failed');
+    }
+
+    await db.insert(stripePaymentIntents).values({
+      organizationId,
+      paymentIntentId: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret!,
+      amount: amountCents,
+      currency: 'usd',
+      status: paymentIntent.status,
+      creditsRequested: credits,
+      discountPercent,
+      source: 'auto_recharge',
+      metadata: paymentIntent.metadata,
+    });
+
+    let credited = false;
+    if (paymentIntent.status === 'succeeded') {
+      credited = await this.handlePaymentSuccess(paymentIntent.id);
+    } else if (paymentIntent.status !== 'processing') {
+      throw new Error(`Auto-recharge payment is ${paymentIntent.status}`);
+    }
+
+    return { paymentIntentId: paymentIntent.id, credits, credited };
+  }
+
+  /**
+   * Record a payment's latest status from Stripe (e.g. a processing payment that failed).
+   * With `fromStatus`, only a payment currently in that status is updated. Returns whether one was.
+   */
+  static async updatePaymentStatus(paymentIntentId: string, status: string, fromStatus?: string): Promise<boolean> {
+    const updated = await db
+      .update(stripePaymentIntents)
+      .set({ status, updatedAt: new Date() })
+      .where(and(
+        eq(stripePaymentIntents.paymentIntentId, paymentIntentId),
+        fromStatus ? eq(stripePaymentIntents.status, fromStatus) : undefined
+      ))
+      .returning({ id: stripePaymentIntents.id });
+
+    return updated.length > 0;
+  }
+
+  /**
+   * Bring an organization's `processing` auto-recharge payments up to date with Stripe, so a missed
+   * webhook can't leave one counted against the monthly cap (or blocking new recharges) forever.
+   * Succeeded payments are credited. Returns the ones credited here and how many are still processing.
+   */
+  static async syncAutoRecharges(organizationId: string): Promise<{
+    credited: Array<{ paymentIntentId: string; amountUsd: number; credits: number }>;
+    processing: number;
+  }> {
+    const pending = await db
+      .select()
+      .from(stripePaymentIntents)
+      .where(and(
+        eq(stripePaymentIntents.organizationId, organizationId),
+        eq(stripePaymentIntents.source, 'auto_recharge'),
+        eq(stripePaymentIntents.status, 'processing')
+      ));
+
+    const credited: Array<{ paymentIntentId: string; amountUsd: number; credits: number }> = [];
+    let processing = 0;
+
+    for (const intent of pending) {
+      const paymentIntent = await stripe.paymentIntents.retrieve(intent.paymentIntentId);
+
+      if (paymentIntent.status === 'processing') {
+        processing++;
+      } else if (paymentIntent.status === 'succeeded') {
+        if (await this.handlePaymentSuccess(intent.paymentIntentId)) {
+          credited.push({ paymentIntentId: intent.paymentIntentId, amountUsd: intent.amount / 100, credits: intent.creditsRequested });
+        } else {
+          await this.updatePaymentStatus(intent.paymentIntentId, paymentIntent.status);
+        }
+      } else {
+        await this.updatePaymentStatus(intent.paymentIntentId, paymentIntent.status);
+      }
+    }
+
+    return { credited, processing };
+  }
+
+  /**
+   * Total charged by auto-recharge (in cents) since a date, counting payments that succeeded or may still succeed.
+   * Processing payments are brought up to date by syncAutoRecharges before each new auto-recharge.
+   */
+  static async getAutoRechargeSpend(organizationId: string, since: Date): Promise<number> {
+    const [row] = await db
+      .select({ total: sql<number>`COALESCE(SUM(${stripePaymentIntents.amount}), 0)::int` })
+      .from(stripePaymentIntents)
+      .where(and(
+        eq(stripePaymentIntents.organizationId, organizationId),
+        eq(stripePaymentIntents.source, 'auto_recharge'),
+        inArray(stripePaymentIntents.status, ['succeeded', 'processing']),
+        gte(stripePaymentIntents.createdAt, since)
+      ));
+
+    return row?.total || 0;
+  }
+
   /**
    * Get pricing plans for frontend
    */
@@ -250,7 +421,7 @@ export class StripeService {
   /**
    * Validate webhook signature
    */
-  static constructEvent(payload: string, signature: string): Stripe.Event {
+  static constructEvent(payload: string | Buffer, signature: string): Stripe.Event {
     const endpointSecret = process.env.STRIPE_WEBHOOK_SECRET;
     if (!endpointSecret) {
       throw new Error('STRIPE_WEBHOOK_SECRET environment variable is required');
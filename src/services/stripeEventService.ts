@@ -0,0 +1,179 @@
+import Stripe from 'stripe';
+import { db } from '../db/index';
+import { stripeEvents } from '../db/schema';
+import { and, count, desc, eq, lt, ne, or, sql } from 'drizzle-orm';
+import StripeService from './stripe';
+import { BalanceMonitorService } from './balanceMonitorService';
+
+// An event still marked processing after this long is assumed abandoned (e.g. a crash) and may be retried
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export type StripeEventStatus = 'processing' | 'processed' | 'ignored' | 'failed';
+export type StripeEventRow = typeof stripeEvents.$inferSelect;
+
+export class StripeEventService {
+  private balanceMonitor = new BalanceMonitorService();
+
+  /**
+   * Process a verified webhook event once. Every event is recorded by id; a redelivery of an event
+   * that was processed (or is being processed) is skipped, while a failed one is processed again.
+   * Returns the stored event, or null when it was skipped as a duplicate. Throws when processing fails.
+   */
+  async handle(event: Stripe.Event): Promise<StripeEventRow | null> {
+    const [inserted] = await db.insert(stripeEvents)
+      .values({ id: event.id, type: event.type, status: 'processing', payload: event })
+      .onConflictDoNothing()
+      .returning();
+
+    const claimed = inserted || await this.claim(event.id, false);
+    if (!claimed) return null;
+
+    return this.process(claimed);
+  }
+
+  // Take an existing event for processing: failed or abandoned ones always, processed ones only when forced
+  private async claim(id: string, force: boolean): Promise<StripeEventRow | null> {
+    const retryable = or(
+      eq(stripeEvents.status, 'failed'),
+      and(
+        eq(stripeEvents.status, 'processing'),
+        lt(stripeEvents.updatedAt, new Date(Date.now() - STALE_PROCESSING_MS))
+      )
+    );
+
+    const [claimed] = await db.update(stripeEvents)
+      .set({
+        status: 'processing',
+        attempts: sql`${stripeEvents.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(stripeEvents.id, id), force ? or(ne(stripeEvents.status, 'processing'), retryable) : retryable))
+      .returning();
+
+    return claimed || null;
+  }
+
+  // Run the event's handler and record the outcome
+  private async process(row: StripeEventRow): Promise<StripeEventRow> {
+    try {
+      const status = await this.dispatch(row.payload as Stripe.Event);
+
+      const [processed] = await db.update(stripeEvents)
+        .set({ status, error: null, updatedAt: new Date(), processedAt: new Date() })
+        .where(eq(stripeEvents.id, row.id))
+        .returning();
+      return processed;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Webhook processing failed';
+
+      await db.update(stripeEvents)
+        .set({ status: 'failed', error: message, updatedAt: new Date() })
+        .where(eq(stripeEvents.id, row.id));
+      throw error;
+    }
+  }
+
+  private async dispatch(event: Stripe.Event): Promise<StripeEventStatus> {
+    switch (event.type) {
+      case 'payment_intent.succeeded': {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent;
+        console.log(`✅ Payment succeeded: ${paymentIntent.id}`);
+
+        // Extract organization ID from metadata
+        const organizationId = paymentIntent.metadata?.organizationId;
+        const amountUsd = paymentIntent.amount / 100; // Convert from cents to USD
+
+        if (!organizationId) {
+          throw new Error('Missing organization ID in payment metadata');
+        }
+
+        // Calculate credits based on the new pricing structure
+        const { credits, discountPercent } = StripeService.calculateCredits(amountUsd);
+
+        console.log(`💰 Processing payment: $${amountUsd} → ${credits} credits (${discountPercent}% discount) for org ${organizationId}`);
+
+        const credited = await StripeService.handlePaymentSuccess(paymentIntent.id, organizationId, credits, discountPercent);
+
+        // An auto-recharge that was still processing when it was made is completed here
+        if (credited && paymentIntent.metadata?.autoRecharge === 'true') {
+          await this.balanceMonitor.completeAutoRecharge(organizationId, paymentIntent.id, amountUsd, credits);
+        }
+        return 'processed';
+      }
+
+      case 'setup_intent.succeeded': {
+        const setupIntent = event.data.object as Stripe.SetupIntent;
+        const organizationId = setupIntent.metadata?.organizationId;
+
+        if (!organizationId || !setupIntent.customer || !setupIntent.payment_method) {
+          return 'ignored';
+        }
+
+        await this.balanceMonitor.savePaymentMethod(
+          organizationId,
+          typeof setupIntent.customer === 'string' ? setupIntent.customer : setupIntent.customer.id,
+          typeof setupIntent.payment_method === 'string' ? setupIntent.payment_method : setupIntent.payment_method.id
+        );
+        console.log(`💳 Saved payment method for org ${organizationId}`);
+        return 'processed';
+      }
+
+      case 'payment_intent.payment_failed': {
+        const failedPayment = event.data.object as Stripe.PaymentIntent;
+        console.log(`❌ Payment failed: ${failedPayment.id}`);
+
+        // Payments declined right away are already handled by the caller; only processing ones fail here
+        const wasProcessing = await StripeService.updatePaymentStatus(failedPayment.id, failedPayment.status, 'processing');
+        const organizationId = failedPayment.metadata?.organizationId;
+        if (wasProcessing && organizationId && failedPayment.metadata?.autoRecharge === 'true') {
+          await this.balanceMonitor.failAutoRecharge(
+            organizationId,
+            failedPayment.amount / 100,
+            failedPayment.last_payment_error?.message || 'Auto-recharge payment failed'
+          );
+        }
+        return 'processed';
+      }
+
+      default:
+        console.log(`Unhandled event type: ${event.type}`);
+        return 'ignored';
+    }
+  }
+
+  // Page through recorded events, newest first
+  async listEvents(filters: { status?: string; type?: string }, limit: number, offset: number) {
+    const where = and(
+      filters.status ? eq(stripeEvents.status, filters.status) : undefined,
+      filters.type ? eq(stripeEvents.type, filters.type) : undefined
+    );
+
+    const [events, [total]] = await Promise.all([
+      db.select()
+        .from(stripeEvents)
+        .where(where)
+        .orderBy(desc(stripeEvents.createdAt))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(stripeEvents).where(where),
+    ]);
+
+    return { events, total: total?.count || 0 };
+  }
+
+  async getEvent(id: string): Promise<StripeEventRow | null> {
+    const [event] = await db.select().from(stripeEvents).where(eq(stripeEvents.id, id)).limit(1);
+    return event || null;
+  }
+
+  /**
+   * Replay a stored event (normally a failed one). Handlers are idempotent, so replaying a processed
+   * event is safe. Returns null when the event is currently being processed.
+   */
+  async reprocess(id: string): Promise<StripeEventRow | null> {
+    const claimed = await this.claim(id, true);
+    if (!claimed) return null;
+
+    return this.process(claimed);
+  }
+}
@@ -0,0 +1,207 @@
+import { RawEngineResult } from './resultMergeService';
+
+export type SearchType = 'web' | 'images' | 'news' | 'videos' | 'maps';
+
+// Fields shared by every typed result
+interface BaseResult {
+  title: string;
+  url: string;
+  position: number;
+  engine: string;
+}
+
+export interface ImageResult extends BaseResult {
+  image_url: string;
+  thumbnail_url: string | null;
+  width: number | null;
+  height: number | null;
+  format: string | null;
+  source: string | null;
+}
+
+export interface NewsResult extends BaseResult {
+  snippet: string;
+  source: string | null;
+  thumbnail_url: string | null;
+  published_date: string | null;
+}
+
+export interface VideoResult extends BaseResult {
+  snippet: string;
+  thumbnail_url: string | null;
+  duration: string | null;
+  author: string | null;
+  embed_url: string | null;
+  published_date: string | null;
+}
+
+export interface MapResult extends BaseResult {
+  latitude: number | null;
+  longitude: number | null;
+  address: string | null;
+  bounding_box: number[] | null;
+  osm_type: string | null;
+  osm_id: string | null;
+}
+
+export type VerticalResult = ImageResult | NewsResult | VideoResult | MapResult;
+
+// Extra fields SearXNG returns for non-web categories
+export interface RawVerticalResult extends RawEngineResult {
+  img_src?: string;
+  thumbnail_src?: string;
+  thumbnail?: string;
+  resolution?: string;
+  img_format?: string;
+  source?: string;
+  length?: string | number;
+  author?: string;
+  iframe_src?: string;
+  latitude?: number | string;
+  longitude?: number | string;
+  boundingbox?: Array<number | string>;
+  address?: Record<string, string | undefined>;
+  osm?: { type?: string; id?: string | number };
+}
+
+export interface VerticalInfo {
+  name: string;
+  category: string; // SearXNG category
+}
+
+// Non-web verticals; their engines, defaults and prices live in the engine registry
+export const SEARCH_VERTICALS: Record<Exclude<SearchType, 'web'>, VerticalInfo> = {
+  images: {
+    name: 'Images',
+    category: 'images',
+  },
+  news: {
+    name: 'News',
+    category: 'news',
+  },
+  videos: {
+    name: 'Videos',
+    category: 'videos',
+  },
+  maps: {
+    name: 'Maps',
+    category: 'map',
+  },
+};
+
+export const SEARCH_TYPES: SearchType[] = ['web', ...Object.keys(SEARCH_VERTICALS) as SearchType[]];
+
+// SearXNG sometimes returns relative or protocol-less media URLs
+function absoluteUrl(url: string | undefined, base: string): string | null {
+  if (!url) return null;
+  try {
+    return new URL(url.startsWith('//') ? `https:${url}` : url, base || undefined).toString();
+  } catch {
+    return null;
+  }
+}
+
+function toNumber(value: number | string | undefined): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function hostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+// Video lengths arrive either as seconds or as an already formatted "m:ss" string
+function formatDuration(length: string | number | undefined): string | null {
+  if (length === undefined || length === null || length === '') return null;
+  if (typeof length === 'string' && length.includes(':')) return length.trim();
+
+  const seconds = Math.round(Number(length));
+  if (!Number.isFinite(seconds)) return String(length);
+
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+export class VerticalService {
+  getVertical(type: SearchType | undefined): VerticalInfo | null {
+    if (!type || type === 'web') return null;
+    return SEARCH_VERTICALS[type];
+  }
+
+  // Map raw SearXNG results to the typed shape of a vertical
+  normalize(type: Exclude<SearchType, 'web'>, rawResults: RawVerticalResult[], engines: string[] = []): VerticalResult[] {
+    return (rawResults || [])
+      .filter(raw => raw.url || raw.img_src)
+      .map((raw, index) => {
+        const url = raw.url || raw.img_src || '';
+        const base = {
+          title: raw.title || '',
+          url,
+          position: index + 1,
+          engine: raw.engine || engines[0] || 'unknown',
+        };
+
+        switch (type) {
+          case 'images': {
+            const [width, height] = (raw.resolution || '').split(/\s*[x×]\s*/).map(part => toNumber(part));
+            return {
+              ...base,
+              image_url: absoluteUrl(raw.img_src, url) || url,
+              thumbnail_url: absoluteUrl(raw.thumbnail_src || raw.thumbnail, url),
+              width: width ?? null,
+              height: height ?? null,
+              format: raw.img_format || null,
+              source: raw.source || hostname(url),
+            };
+          }
+          case 'news':
+            return {
+              ...base,
+              snippet: raw.content || raw.snippet || '',
+              source: raw.source || hostname(url),
+              thumbnail_url: absoluteUrl(raw.thumbnail || raw.img_src, url),
+              published_date: raw.publishedDate || null,
+            };
+          case 'videos':
+            return {
+              ...base,
+              snippet: raw.content || raw.snippet || '',
+              thumbnail_url: absoluteUrl(raw.thumbnail || raw.thumbnail_src, url),
+              duration: formatDuration(raw.length),
+              author: raw.author || null,
+              embed_url: absoluteUrl(raw.iframe_src, url),
+              published_date: raw.publishedDate || null,
+            };
+          case 'maps': {
+            const address = raw.address
+              ? [
+                  [raw.address.house_number, raw.address.road].filter(Boolean).join(' '),
+                  raw.address.locality,
+                  raw.address.postcode,
+                  raw.address.country,
+                ].filter(Boolean).join(', ')
+              : '';
+            const boundingBox = (raw.boundingbox || []).map(toNumber);
+            return {
+              ...base,
+              latitude: toNumber(raw.latitude),
+              longitude: toNumber(raw.longitude),
+              address: address || raw.content || null,
+              bounding_box: boundingBox.length === 4 && boundingBox.every(value => value !== null)
+                ? boundingBox as number[]
+                : null,
+              osm_type: raw.osm?.type || null,
+              osm_id: raw.osm?.id !== undefined ? String(raw.osm.id) : null,
+            };
+          }
+        }
+      });
+  }
+}
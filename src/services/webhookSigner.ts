@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+
+// HMAC-SHA256 over "<timestamp>.<body>", sent as `t=<timestamp>,v1=<hex digest>` in X-Serp-Signature
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
@@ -0,0 +1,79 @@
+import dns from 'dns/promises';
+import net from 'net';
+
+// Address ranges an outbound webhook must never reach: loopback, private networks, link-local
+// (including the 169.254.169.254 cloud metadata endpoint), carrier-grade NAT, multicast and reserved space
+const BLOCKED_RANGES = new net.BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED_RANGES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+// Whether an IP address is routable on the public internet
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+
+  // IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are matched against the IPv4 ranges by BlockList itself
+  return !BLOCKED_RANGES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Validate a client-supplied webhook URL: http(s) only, no credentials, and every address the host
+ * resolves to must be public. Run it when the URL is accepted and again right before each delivery,
+ * so a DNS change can't point an accepted URL at an internal service.
+ */
+export async function validateWebhookUrl(value: unknown, field: string): Promise<{ url?: string; error?: string }> {
+  let parsed: URL;
+  try {
+    parsed = new URL(String(value));
+  } catch {
+    return { error: `${field} must be a valid URL` };
+  }
+  if (!['http:', 'https:'].includes(parsed.protocol)) {
+    return { error: `${field} must use http or https` };
+  }
+  if (parsed.username || parsed.password) {
+    return { error: `${field} must not contain credentials` };
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (net.isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.lookup(host, { all: true, verbatim: true })).map(entry => entry.address);
+    } catch {
+      return { error: `${field} host could not be resolved` };
+    }
+  }
+
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return { error: `${field} must point to a public host` };
+  }
+
+  return { url: parsed.toString() };
+}